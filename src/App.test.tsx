@@ -1,9 +1,423 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
 import App from './App';
+import { memoryRoundStore } from './history';
+import { newMatch } from './match';
+import { createUpdateStore } from './pwa';
+import { shareUrl } from './share';
 
-test('renders learn react link', () => {
+beforeEach(() => localStorage.clear());
+afterEach(() => jest.restoreAllMocks());
+
+test('opens on match setup', () => {
+  render(<App />);
+  expect(screen.getByText(/match setup/i)).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: /start match/i })).toBeInTheDocument();
+});
+
+test('scores land on the right player when an earlier slot is blank', () => {
+  render(<App />);
+  fireEvent.change(screen.getByPlaceholderText('Player 2'), { target: { value: '' } });
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('C team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '5' } });
+  fireEvent.change(screen.getByLabelText('C score'), { target: { value: '4' } });
+  expect(screen.getByLabelText('C score')).toHaveValue('4');
+
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  const row = (name: string) => within(screen.getByRole('row', { name: new RegExp(`^${name} `) }));
+  expect(row('A').getAllByText('-$1.00')).toHaveLength(2);
+  expect(row('C').getAllByText('+$1.00')).toHaveLength(2);
+});
+
+test('implausible and missing scores are called out', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '25' } });
+  expect(screen.getByRole('alert')).toHaveTextContent("A's 25 isn't 1–10");
+  expect(screen.getByText('Needs a score from B')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Hole 1, par 4: incomplete' })).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  const banner = within(screen.getByLabelText('Scoring problems'));
+  expect(banner.getByText('H1: no score for B')).toBeInTheDocument();
+  expect(banner.getByText("H1: A's 25 isn't 1–10")).toBeInTheDocument();
+});
+
+test('the hole strip jumps straight to a hole', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.click(screen.getByRole('button', { name: 'Hole 15, par 4: incomplete' }));
+  expect(screen.getByRole('heading', { name: /hole 15 of 18/i })).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: /^Hole 15,/ })).toHaveAttribute('aria-current', 'step');
+});
+
+test('a paper card can be copied in on the scorecard grid', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.click(screen.getByRole('button', { name: 'Scorecard' }));
+
+  fireEvent.click(screen.getByRole('button', { name: 'A hole 3 team: Sit' }));
+  fireEvent.click(screen.getByRole('button', { name: 'B hole 3 team: Sit' }));
+  fireEvent.click(screen.getByRole('button', { name: 'B hole 3 team: T1' }));
+  fireEvent.change(screen.getByLabelText('A hole 3 score'), { target: { value: '4' } });
+  fireEvent.change(screen.getByLabelText('B hole 3 score'), { target: { value: '5' } });
+  const row = (name: string) => within(screen.getByRole('row', { name: new RegExp(`^${name} `) }));
+  expect(row('A').getAllByText('+$1.00')).toHaveLength(2);
+  expect(row('B').getAllByText('-$1.00')).toHaveLength(2);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Open hole 3 (complete)' }));
+  expect(screen.getByRole('heading', { name: /hole 3 of 18/i })).toBeInTheDocument();
+  expect(screen.getByLabelText('B score')).toHaveValue('5');
+});
+
+test('a score can be undone and redone, and the log shows who changed it', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '5' } });
+
+  fireEvent.click(screen.getByRole('button', { name: /undo/i }));
+  expect(screen.getByLabelText('A score')).toHaveValue('');
+  expect(screen.getByLabelText('A team')).toHaveValue('T1');
+  fireEvent.click(screen.getByRole('button', { name: /redo/i }));
+  expect(screen.getByLabelText('A score')).toHaveValue('5');
+  expect(screen.getByRole('button', { name: /redo/i })).toBeDisabled();
+
+  fireEvent.click(screen.getByRole('button', { name: /log/i }));
+  const changes = within(screen.getByRole('list', { name: 'Changes' }));
+  expect(changes.getByText('Redid: H1 A score – → 5')).toBeInTheDocument();
+  expect(changes.getByText('Undid: H1 A score – → 5')).toBeInTheDocument();
+  expect(changes.getByText('H1 A team Sit → T1')).toBeInTheDocument();
+  expect(changes.getAllByText(/· You$/).length).toBeGreaterThan(0);
+});
+
+test('undoing a longer card from one of the added holes lands on the last hole left', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /play these 18 twice/i }));
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.click(screen.getByRole('button', { name: 'Hole 30, par 4: incomplete' }));
+  expect(screen.getByRole('heading', { name: /hole 30 of 36/i })).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /undo/i }));
+  expect(screen.getByRole('heading', { name: /hole 18 of 18/i })).toBeInTheDocument();
+  fireEvent.click(screen.getByRole('button', { name: /redo/i }));
+  expect(screen.getByRole('heading', { name: /hole 18 of 36/i })).toBeInTheDocument();
+});
+
+test('junk dots are tapped in per player and paid on top of the bet', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: '+ Greenie' }));
+  fireEvent.change(screen.getByLabelText('Hole 1 par'), { target: { value: '3' } });
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '3' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '4' } });
+  fireEvent.click(screen.getByRole('button', { name: 'A Greenie: 0 dots' }));
+  expect(screen.getByRole('button', { name: 'A Greenie: 1 dot' })).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  expect(screen.getByRole('columnheader', { name: 'Greenie' })).toBeInTheDocument();
+  const row = within(screen.getByRole('row', { name: /^A / }));
+  // $1 from B on the hole, $1 from each of B, C and D for the greenie
+  expect(row.getByText('+$3.00')).toBeInTheDocument();
+  expect(row.getByText('+$4.00')).toBeInTheDocument();
+});
+
+test('loading a shorter course or deleting one asks first', () => {
+  const holes = Array.from({ length: 9 }, () => ({ par: 4, strokeIndex: '', yardage: '' }));
+  localStorage.setItem('savedCourses', JSON.stringify([{ id: 'c1', name: 'Short Nine', tees: [{ name: 'White', holes }] }]));
+  const confirm = jest.spyOn(window, 'confirm').mockReturnValue(false);
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.click(screen.getByRole('button', { name: 'Hole 12, par 4: incomplete' }));
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '5' } });
+  fireEvent.click(screen.getByRole('button', { name: /settings/i }));
+
+  fireEvent.click(screen.getByRole('button', { name: 'White · 9' }));
+  expect(confirm).toHaveBeenLastCalledWith('Scores after hole 9 will be lost. Continue?');
+  expect(screen.getByLabelText('Hole 18 par')).toBeInTheDocument();
+  fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+  expect(screen.getByText('Short Nine')).toBeInTheDocument();
+
+  confirm.mockReturnValue(true);
+  fireEvent.click(screen.getByRole('button', { name: 'White · 9' }));
+  expect(screen.queryByLabelText('Hole 10 par')).not.toBeInTheDocument();
+  fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+  expect(screen.queryByText('Short Nine')).not.toBeInTheDocument();
+});
+
+test('a side bet gets its own ledger tab and counts in the combined net', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: '+ Add Bet' }));
+  fireEvent.change(screen.getByLabelText('Bet 1 name'), { target: { value: 'A v B skins' } });
+  fireEvent.change(screen.getByLabelText('A v B skins game'), { target: { value: 'skins' } });
+  fireEvent.change(screen.getByLabelText('A v B skins wager'), { target: { value: '5' } });
+  fireEvent.click(screen.getByLabelText('A v B skins: C'));
+  fireEvent.click(screen.getByLabelText('A v B skins: D'));
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '4' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '5' } });
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+
+  fireEvent.click(screen.getByRole('tab', { name: 'A v B skins' }));
+  expect(within(screen.getByRole('row', { name: /^B / })).getAllByText('-$5.00')).toHaveLength(2);
+  expect(screen.queryByRole('row', { name: /^C / })).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('tab', { name: 'Combined' }));
+  const combined = within(screen.getByRole('table', { name: 'Combined' }));
+  const row = within(combined.getByRole('row', { name: /^A / }));
+  // $1 on the main game's hole, $5 for the skin
+  expect(row.getByText('+$1.00')).toBeInTheDocument();
+  expect(row.getByText('+$5.00')).toBeInTheDocument();
+  expect(row.getByText('+$6.00')).toBeInTheDocument();
+});
+
+test('a team side bet picks its own sides on each hole', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: '+ Add Bet' }));
+  fireEvent.change(screen.getByLabelText('Bet 1 name'), { target: { value: 'Pair' } });
+  fireEvent.click(screen.getByLabelText('Pair: C'));
+  fireEvent.click(screen.getByLabelText('Pair: D'));
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+
+  // Main game: A and B together against D
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('D team'), { target: { value: 'T2' } });
+  // The bet: A against B
+  expect(screen.queryByLabelText('Pair C team')).not.toBeInTheDocument();
+  fireEvent.change(screen.getByLabelText('Pair A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('Pair B team'), { target: { value: 'T2' } });
+  expect(screen.getByLabelText('A team')).toHaveValue('T1');
+  expect(screen.getByLabelText('B team')).toHaveValue('T1');
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '4' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '5' } });
+  fireEvent.change(screen.getByLabelText('D score'), { target: { value: '3' } });
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+
+  fireEvent.click(screen.getByRole('tab', { name: 'Pair' }));
+  expect(within(screen.getByRole('row', { name: /^A / })).getAllByText('+$1.00')).toHaveLength(2);
+  expect(within(screen.getByRole('row', { name: /^B / })).getAllByText('-$1.00')).toHaveLength(2);
+});
+
+test('regulars are picked from the roster and settle up to their payment handle', () => {
+  localStorage.setItem(
+    'playerRoster',
+    JSON.stringify([{ id: 'u1', name: 'David', nickname: 'Dave', handicap: 9, payHandle: '@dave-golf' }])
+  );
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  fireEvent.change(screen.getByPlaceholderText('Player 2'), { target: { value: '' } });
+  fireEvent.click(screen.getByRole('button', { name: '+ Dave' }));
+  expect(screen.getByPlaceholderText('Player 2')).toHaveValue('Dave');
+  expect(screen.queryByRole('button', { name: '+ Dave' })).not.toBeInTheDocument();
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('Dave team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '5' } });
+  fireEvent.change(screen.getByLabelText('Dave score'), { target: { value: '4' } });
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  fireEvent.click(screen.getByRole('button', { name: /settle up/i }));
+  expect(screen.getByRole('listitem')).toHaveTextContent('A → Dave@dave-golf$1.00');
+});
+
+test('the status panel shows the hole as it stands and the match so far', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '4' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '4' } });
+  expect(screen.getByText('All square')).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  expect(screen.getByText(/H2 is worth \$2\.00 a unit/)).toHaveTextContent('($1.00 carried in)');
+  expect(screen.getByText('Birdie: $4.00 · Eagle or better: $6.00')).toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '3' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '5' } });
+  const row = within(within(screen.getByRole('table', { name: 'Running totals' })).getByRole('row', { name: /^A / }));
+  expect(row.getAllByText('+$4.00')).toHaveLength(2);
+  expect(screen.getByText('T1 1 up')).toBeInTheDocument();
+});
+
+test('players can be added and the round shortened to nine', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /add player/i }));
+  fireEvent.change(screen.getByPlaceholderText('Player 5'), { target: { value: 'E' } });
+  fireEvent.click(screen.getByRole('button', { name: '9' }));
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+
+  expect(screen.getByLabelText('E score')).toBeInTheDocument();
+  const next = screen.getByRole('button', { name: 'Next' });
+  for (let i = 0; i < 8; i++) fireEvent.click(next);
+  expect(screen.getByRole('heading', { name: /hole 9 of 9/i })).toBeInTheDocument();
+  expect(next).toBeDisabled();
+});
+
+test('rotating partners locks teams into the round', () => {
+  render(<App />);
+  fireEvent.change(screen.getByLabelText('Team mode'), { target: { value: 'rotation' } });
+  fireEvent.click(screen.getByRole('button', { name: /generate teams/i }));
+  expect(screen.getByText('A & D vs B & C')).toBeInTheDocument();
+  fireEvent.click(screen.getByRole('button', { name: /lock in/i }));
+  expect(screen.getByRole('status')).toHaveTextContent('Teams set on holes 1–18');
+
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  expect(screen.getByLabelText('B team')).toHaveValue('T1');
+});
+
+test('a carry left at the end can go to a playoff hole', () => {
+  render(<App />);
+  fireEvent.change(screen.getByLabelText('Custom hole count'), { target: { value: '1' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Set' }));
+  fireEvent.change(screen.getByLabelText('Carry left at the end'), { target: { value: 'playoff' } });
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '4' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '4' } });
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  expect(screen.getByText(/still carrying after H1: play a playoff hole/)).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /playoff hole/i }));
+  expect(screen.getByRole('heading', { name: /hole 2 of 2/i })).toBeInTheDocument();
+  expect(screen.getByLabelText('A team')).toHaveValue('T1');
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '4' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '5' } });
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  expect(within(screen.getByRole('row', { name: /^Carry / })).getByText('$1.00')).toBeInTheDocument();
+  expect(within(screen.getByRole('row', { name: /^A / })).getAllByText('+$2.00')).toHaveLength(2);
+  expect(screen.queryByRole('button', { name: /playoff hole/i })).not.toBeInTheDocument();
+});
+
+test('an impossible par or score is kept as typed and flagged', () => {
+  render(<App />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '0' } });
+  expect(screen.getByLabelText('A score')).toHaveValue('0');
+  expect(screen.getByRole('alert')).toHaveTextContent("A's 0 isn't 1–10: check the score");
+
+  fireEvent.change(screen.getByLabelText('Par'), { target: { value: '2' } });
+  expect(screen.getByLabelText('Par')).toHaveValue('2');
+  expect(screen.getByText('Par 2 is scored as a par 4')).toBeInTheDocument();
+});
+
+test('a bad relay server says why instead of going live', () => {
+  render(<App />);
+  fireEvent.change(screen.getByPlaceholderText(/wss:/), { target: { value: 'relay.example.com' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Host' }));
+  expect(screen.getByRole('alert')).toHaveTextContent('ws:// or wss://');
+  expect(screen.queryByText(/Live in room/)).not.toBeInTheDocument();
+});
+
+test('a finished round is kept in history and reopens read-only', async () => {
+  jest.spyOn(window, 'confirm').mockReturnValue(true);
+  render(<App roundStore={memoryRoundStore()} />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '3' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '4' } });
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  fireEvent.click(screen.getByRole('button', { name: /finish round/i }));
+
+  // Birdie doubles A's dollar
+  const standings = await screen.findByRole('row', { name: /^A 1/ });
+  expect(within(standings).getByText('+$2.00')).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /^Round/ }));
+  expect(screen.getByRole('button', { name: /back to history/i })).toBeInTheDocument();
+  expect(screen.queryByRole('button', { name: /settle up/i })).not.toBeInTheDocument();
+});
+
+test('a round that fails to delete stays in history and says so', async () => {
+  jest.spyOn(window, 'confirm').mockReturnValue(true);
+  const store = { ...memoryRoundStore(), remove: () => Promise.reject(new Error('locked')) };
+  render(<App roundStore={store} />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  fireEvent.click(screen.getByRole('button', { name: /finish round/i }));
+
+  fireEvent.click(await screen.findByRole('button', { name: 'Delete' }));
+  expect(await screen.findByRole('alert')).toHaveTextContent("Couldn't delete that round");
+  expect(screen.getByRole('button', { name: /^Round/ })).toBeInTheDocument();
+});
+
+test('history that fails to load says so and can be tried again', async () => {
+  const store = memoryRoundStore();
+  let fail = true;
+  const flaky = { ...store, list: () => (fail ? Promise.reject(new Error('blocked')) : store.list()) };
+  render(<App roundStore={flaky} />);
+  fireEvent.click(screen.getByRole('button', { name: /history/i }));
+
+  expect(await screen.findByRole('alert')).toHaveTextContent("Couldn't load your rounds");
+  expect(screen.queryByText(/No finished rounds yet/)).not.toBeInTheDocument();
+  fail = false;
+  fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+  expect(await screen.findByText(/No finished rounds yet/)).toBeInTheDocument();
+});
+
+test('history shows stats worked out from the scores', async () => {
+  jest.spyOn(window, 'confirm').mockReturnValue(true);
+  render(<App roundStore={memoryRoundStore()} />);
+  fireEvent.click(screen.getByRole('button', { name: /start match/i }));
+  fireEvent.change(screen.getByLabelText('A team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('C team'), { target: { value: 'T1' } });
+  fireEvent.change(screen.getByLabelText('B team'), { target: { value: 'T2' } });
+  fireEvent.change(screen.getByLabelText('A score'), { target: { value: '3' } });
+  fireEvent.change(screen.getByLabelText('C score'), { target: { value: '5' } });
+  fireEvent.change(screen.getByLabelText('B score'), { target: { value: '4' } });
+  fireEvent.click(screen.getByRole('button', { name: /ledger/i }));
+  fireEvent.click(screen.getByRole('button', { name: /finish round/i }));
+
+  fireEvent.click(await screen.findByRole('button', { name: '📊 Stats' }));
+  expect(within(screen.getByRole('table', { name: 'Players' })).getByRole('row', { name: 'A 1 1 3 -1' })).toBeInTheDocument();
+  expect(screen.getByRole('list', { name: 'Scores' })).toHaveTextContent('Birdie1 · 100%');
+  expect(screen.getByText(/carried the team on/i)).toHaveTextContent('Carried the team on 1 of 1 team holes (100%)');
+
+  const picker = screen.getByLabelText('Stats for');
+  fireEvent.change(picker, { target: { value: within(picker).getByRole('option', { name: 'C' }).getAttribute('value') } });
+  expect(screen.getByRole('list', { name: 'Scores' })).toHaveTextContent('Bogey1 · 100%');
+});
+
+test('a share link opens a read-only ledger', () => {
+  const match = newMatch();
+  const [a, b] = match.players;
+  match.holes[0] = { ...match.holes[0], teamPicks: { [a.id]: 'T1', [b.id]: 'T2' }, scores: { [a.id]: 4, [b.id]: 5 } };
+  window.history.replaceState(null, '', shareUrl(match));
+
+  render(<App />);
+  expect(screen.getByRole('heading', { name: /shared/i })).toBeInTheDocument();
+  expect(within(screen.getByRole('row', { name: /^A / })).getAllByText('+$1.00')).toHaveLength(2);
+  expect(screen.queryByRole('button', { name: /settle up/i })).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /close/i }));
+  expect(window.location.hash).toBe('');
+  expect(screen.getByText(/match setup/i)).toBeInTheDocument();
+});
+
+test('a new version waits for a tap before reloading', () => {
+  const updates = createUpdateStore({ reload: jest.fn() });
+  render(<App updates={updates} />);
+  const worker = { postMessage: jest.fn() } as unknown as ServiceWorker;
+  act(() => updates.available(worker));
+  expect(screen.getByRole('status')).toHaveTextContent('A new version is ready.');
+  fireEvent.click(screen.getByRole('button', { name: 'Reload' }));
+  expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+
+  fireEvent.click(screen.getByRole('button', { name: 'Later' }));
+  expect(screen.queryByRole('status')).not.toBeInTheDocument();
 });
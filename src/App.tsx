@@ -1,308 +1,646 @@
-import React, { useEffect, useMemo, useState } from "react";
-
-// ---------- Types ----------
-type TeamPick = "T1" | "T2" | "Sit";
-
-type Settings = {
-  wager: number;
-  carryOver: boolean;
-  soloDouble: boolean;   // NEW
-  birdieDouble: boolean;
-  eagleTriple: boolean;
-};
-
-type HoleState = {
-  par: number | "";                 // allow empty while editing on mobile
-  teamPicks: TeamPick[];
-  scores: (number | "")[];
-};
-
-// ---------- UI Primitives ----------
-function Label({ htmlFor, children }: { htmlFor?: string; children: React.ReactNode }) {
-  return <label htmlFor={htmlFor} className="text-sm font-medium text-gray-700">{children}</label>;
-}
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  activePlayers,
+  Bet,
+  dropsScores,
+  FormatId,
+  HoleState,
+  MatchState,
+  MAX_HOLES,
+  MAX_PLAYERS,
+  newHole,
+  newMatch,
+  newPlayer,
+  pickOf,
+  Player,
+  playerNames,
+  removePlayerFromHoles,
+  repeatHoles,
+  resizeHoles,
+  ScoreBasis,
+  scoreOf,
+  Screen,
+  Settings,
+  TeamPick,
+} from "./match";
+import { FORMATS, GameFormat, getFormat } from "./formats";
+import { strokeTable } from "./handicap";
+import { applyTee } from "./courses";
+import { CourseLibrary } from "./CourseLibrary";
+import { TeamBuilder } from "./TeamBuilder";
+import { ScorecardGrid } from "./ScorecardGrid";
+import { HoleStatusBadge, HoleStrip } from "./HoleStatus";
+import { balancedSplit } from "./teams";
+import { Label, NumberField, Select, Toggle } from "./ui";
+import { formatCents, formatDollars, toCents } from "./money";
+import { computeSettlement, mergeBalances, settlementImbalance, settlementSummary } from "./settlement";
+import { carryPots, findUnbalancedHoles, PressResult, teamsOn } from "./scoring";
+import { HoleBadge, holeBadge, HoleProblem, missingScores, parProblem, scoreProblem, scoringProblems } from "./validation";
+import { clearMatch, isMatchStarted, loadMatch, normalizeMatch, saveMatch, StoredMatch } from "./matchStorage";
+import { ArchivedRound, archiveRound, defaultRoundStore, RoundStore } from "./history";
+import { RoundHistory } from "./RoundHistory";
+import { ledgerCsv, readSharedMatch, shareUrl } from "./share";
+import { drawScorecard, scorecardBlob } from "./scorecard";
+import { downloadFile } from "./download";
+import {
+  applyChanges,
+  cardChanges,
+  createSyncSession,
+  describePath,
+  FieldChange,
+  roomTransport,
+  SyncConflict,
+  SyncSession,
+  SyncSnapshot,
+  SyncTransport,
+} from "./sync";
+import { SyncPanel } from "./SyncPanel";
+import {
+  appendAudit,
+  AuditEntry,
+  changeText,
+  describeChanges,
+  EMPTY_UNDO,
+  loadAuditLog,
+  MatchSnapshot,
+  pushEdit,
+  redoEdit,
+  replayEdit,
+  saveAuditLog,
+  undoEdit,
+  UndoState,
+} from "./undo";
+import { AuditLog } from "./AuditLog";
+import { computeJunk, JunkColumn } from "./junk";
+import { JunkDots, JunkSettings } from "./JunkInputs";
+import { appUpdates, UpdateStore } from "./pwa";
+import { UpdatePrompt } from "./UpdatePrompt";
+import { StatusPanel } from "./StatusPanel";
+import { sideStatus } from "./matchStatus";
+import { BetColumn, betColumns, BetResult, computeBets, netDeltas, netTotals } from "./bets";
+import { BetHoleInputs, SideBets } from "./SideBets";
+import {
+  loadRoster,
+  playerFromProfile,
+  playerKey,
+  Profile,
+  profileOf,
+  rememberPlayers,
+  renamePlayer,
+  saveRoster,
+} from "./roster";
+import { RegularsPicker, RosterEditor } from "./PlayerRoster";
 
-function Toggle({ checked, onChange }: { checked: boolean; onChange: (v: boolean) => void }) {
-  return (
-    <button
-      type="button"
-      onClick={() => onChange(!checked)}
-      className={
-        "relative inline-flex h-6 w-11 items-center rounded-full transition " +
-        (checked ? "bg-green-600" : "bg-gray-300")
-      }
-      aria-pressed={checked}
-    >
-      <span
-        className={
-          "inline-block h-5 w-5 transform rounded-full bg-white transition " +
-          (checked ? "translate-x-5" : "translate-x-1")
-        }
-      />
-    </button>
-  );
-}
+const DEFAULT_ROUND_STORE = defaultRoundStore();
+const RESTORED = "restored";
 
-// Mobile-friendly numeric input that can be cleared (crucial for iOS)
-function NumberField({
-  value,
-  step = 1,
-  min,
-  onChange,
-  className = "",
+// ---------- App ----------
+export default function SideBetsTracker({
+  roundStore = DEFAULT_ROUND_STORE,
+  updates = appUpdates,
 }: {
-  value: number | "";
-  step?: number;
-  min?: number;
-  onChange: (v: number | "") => void;
-  className?: string;
+  roundStore?: RoundStore;
+  updates?: UpdateStore;
 }) {
-  return (
-    <input
-      type="text"
-      inputMode="numeric"
-      pattern="[0-9]*"
-      value={value}
-      onChange={(e) => {
-        const val = e.target.value;
-        if (val === "") {
-          onChange("");
-          return;
-        }
-        const num = Number(val);
-        if (!Number.isNaN(num)) {
-          if (min !== undefined && num < min) onChange(min);
-          else onChange(num);
-        }
-      }}
-      className={
-        "w-full rounded-md border border-gray-300 px-2 py-2 text-lg outline-none focus:ring-2 focus:ring-indigo-500 " +
-        className
-      }
-    />
+  // A saved match that was never started is restored silently; one in
+  // progress waits for the Resume / Start new prompt.
+  const [stored] = useState(() => loadMatch());
+  const [initial] = useState<MatchState>(() =>
+    stored && !isMatchStarted(stored.match) ? stored.match : newMatch()
   );
-}
-
-function Select({
-  value,
-  onChange,
-  options,
-}: {
-  value: string;
-  onChange: (v: string) => void;
-  options: { label: string; value: string }[];
-}) {
-  return (
-    <select
-      value={value}
-      onChange={(e) => onChange(e.target.value)}
-      className="rounded-md border border-gray-300 px-2 py-2 text-lg outline-none focus:ring-2 focus:ring-indigo-500"
-    >
-      {options.map((o) => (
-        <option key={o.value} value={o.value}>
-          {o.label}
-        </option>
-      ))}
-    </select>
+  const [resumeOffer, setResumeOffer] = useState<StoredMatch | null>(() =>
+    stored && isMatchStarted(stored.match) ? stored : null
   );
-}
+  // A match opened from a share link; shown read-only over everything else
+  const [shared, setShared] = useState(() => readSharedMatch(window.location.hash));
+  const live = !resumeOffer && !shared;
 
-// ---------- Core Computation (payouts) ----------
-function computeDeltas(holes: HoleState[], settings: Settings, playersAll: string[]) {
-  const activeIdx: number[] = [];
-  playersAll.forEach((p, i) => {
-    if (p.trim() !== "") activeIdx.push(i);
-  });
-  const nPlayers = activeIdx.length;
-
-  const deltas = holes.map(() => Array(nPlayers).fill(0));
-  let carry = 0;
-
-  for (let hi = 0; hi < holes.length; hi++) {
-    const hole = holes[hi];
-
-    const pRaw = hole.par;
-    let par = 4;
-    if (typeof pRaw === "number" && Number.isFinite(pRaw) && pRaw >= 3) par = pRaw;
-    else if (typeof pRaw === "string" && pRaw.trim() !== "" && !Number.isNaN(Number(pRaw))) par = Math.max(3, Number(pRaw));
-
-    const t1: number[] = [];
-    const t2: number[] = [];
-    for (let aj = 0; aj < nPlayers; aj++) {
-      const oi = activeIdx[aj];
-      const pick = hole.teamPicks[oi];
-      if (pick === "T1") t1.push(aj);
-      else if (pick === "T2") t2.push(aj);
-    }
+  const [players, setPlayers] = useState<Player[]>(initial.players);
+  const [settings, setSettings] = useState<Settings>(initial.settings);
+  const [holes, setHoles] = useState<HoleState[]>(initial.holes);
 
-    const stakeForScore = (winningBest: number) => {
-      const baseUnits = 1 + (settings.carryOver ? carry : 0);
-      let mult = 1;
-      const rel = winningBest - par;
-      if (settings.eagleTriple && rel <= -2) mult = 3;
-      else if (settings.birdieDouble && rel === -1) mult = 2;
-      return settings.wager * baseUnits * mult;
-    };
+  const [screen, setScreen] = useState<Screen>(initial.screen);
+  const [holeCursor, setActiveHole] = useState(initial.activeHole);
+  // Clamped in the same render, so an undo or a remote change that shrinks
+  // the card never shows a hole that's gone
+  const activeHole = Math.min(holeCursor, holes.length - 1);
+  const [courseName, setCourseName] = useState(initial.courseName);
+  const [bets, setBets] = useState<Bet[]>(initial.bets);
 
-    const teamBest = (team: number[]) => {
-      let best = Infinity;
-      for (const aj of team) {
-        const oi = activeIdx[aj];
-        const s = hole.scores[oi];
-        if (s !== "") {
-          const v = Number(s);
-          if (v < best) best = v;
-        }
-      }
-      return best;
-    };
+  // Regulars, kept across rounds
+  const [roster, setRoster] = useState<Profile[]>(() => loadRoster());
+  useEffect(() => saveRoster(roster), [roster]);
 
-    const onlyOneTeam = (t1.length > 0 && t2.length === 0) || (t2.length > 0 && t1.length === 0);
-    if (onlyOneTeam) {
-      const participants = t1.length ? t1 : t2;
-      let best = Infinity;
-      for (const aj of participants) {
-        const oi = activeIdx[aj];
-        const s = hole.scores[oi];
-        if (s !== "") best = Math.min(best, Number(s));
-      }
-      if (!Number.isFinite(best)) continue;
+  // History: where Back returns to, and the archived round open in the Ledger
+  const [returnTo, setReturnTo] = useState<Screen>("setup");
+  const [viewing, setViewing] = useState<ArchivedRound | null>(null);
 
-      const bestList: number[] = [];
-      for (const aj of participants) {
-        const oi = activeIdx[aj];
-        const s = hole.scores[oi];
-        if (s !== "" && Number(s) === best) bestList.push(aj);
-      }
+  // Autosave — held off while the prompt is up so the saved round isn't clobbered
+  useEffect(() => {
+    if (resumeOffer) return;
+    saveMatch({ players, settings, holes, screen, activeHole, courseName, bets });
+  }, [resumeOffer, players, settings, holes, screen, activeHole, courseName, bets]);
 
-      if (bestList.length !== 1) {
-        if (settings.carryOver) carry += 1;
-        continue;
-      }
+  // Keep the current hole on the course when holes are removed
+  useEffect(() => {
+    setActiveHole((i) => Math.min(i, holes.length - 1));
+  }, [holes.length]);
 
-      const stake = stakeForScore(best);
-      const winner = bestList[0];
-      for (const aj of participants) {
-        if (aj === winner) continue;
-        deltas[hi][aj] -= stake;
-        deltas[hi][winner] += stake;
-      }
-      carry = 0;
-      continue;
-    }
+  // Undo and the change log: every change to the match is diffed against
+  // the last one recorded. `editSource` names where the next change comes
+  // from (null for this device); RESTORED marks changes that aren't edits.
+  const [undo, setUndo] = useState<UndoState>(EMPTY_UNDO);
+  const [log, setLog] = useState<AuditEntry[]>(() => loadAuditLog());
+  const [showLog, setShowLog] = useState(false);
+  const recorded = useRef<MatchSnapshot>({ players, settings, holes, courseName, bets });
+  const editSource = useRef<string | null>(null);
 
-    if (t1.length === 0 || t2.length === 0) continue;
+  useEffect(() => saveAuditLog(log), [log]);
 
-    const best1 = teamBest(t1);
-    const best2 = teamBest(t2);
-    if (!Number.isFinite(best1) || !Number.isFinite(best2)) continue;
+  useEffect(() => {
+    const before = recorded.current;
+    const after = { players, settings, holes, courseName, bets };
+    const source = editSource.current ?? "You";
+    recorded.current = after;
+    editSource.current = null;
+    if (source === RESTORED) return;
+    const changes = describeChanges(before, after);
+    if (changes.length === 0) return;
+    const at = Date.now();
+    // Only our own edits go on the undo stack; other devices undo theirs
+    if (source === "You") setUndo((u) => pushEdit(u, { at, source, before, after, changes }));
+    setLog((l) => appendAudit(l, { at, source, kind: "edit", changes }));
+  }, [players, settings, holes, courseName, bets]);
 
-    if (best1 === best2) {
-      if (settings.carryOver) carry += 1;
-      continue;
-    }
+  const restore = (m: MatchSnapshot) => {
+    editSource.current = RESTORED;
+    setPlayers(m.players);
+    setSettings(m.settings);
+    setHoles(m.holes);
+    setCourseName(m.courseName);
+    setBets(m.bets);
+  };
 
-    const winners = best1 < best2 ? t1 : t2;
-    const losers  = best1 < best2 ? t2 : t1;
-    const winningBest = Math.min(best1, best2);
-    const stake = stakeForScore(winningBest);
+  const resetHistory = () => {
+    setUndo(EMPTY_UNDO);
+    setLog([]);
+  };
 
-    const W = winners.length;
-    const L = losers.length;
+  const resumeMatch = (m: MatchState) => {
+    editSource.current = RESTORED;
+    setPlayers(m.players);
+    setSettings(m.settings);
+    setHoles(m.holes);
+    setScreen(m.screen);
+    setActiveHole(m.activeHole);
+    setCourseName(m.courseName);
+    setBets(m.bets);
+    setResumeOffer(null);
+  };
+
+  const startNewMatch = () => {
+    clearMatch();
+    resetHistory();
+    setResumeOffer(null);
+  };
+
+  const format = getFormat(settings.format);
+  const { deltas, totals, activeIds, notes, presses, explanations, carryLeft } = useMemo(
+    () => format.compute({ holes, settings, players }),
+    [format, holes, settings, players]
+  );
+  const badges = explanations.map((e, hi) => holeBadge(e, holes[hi]));
+  // Junk is settled alongside the format's bet, and side bets are scored on
+  // their own and added in per player: the grand totals carry all of it
+  const junk = useMemo(() => computeJunk({ holes, settings, players }), [holes, settings, players]);
+  const betResults = useMemo(() => computeBets(bets, holes, players), [bets, holes, players]);
+  const grandTotals = netTotals(
+    totals.map((t, aj) => t + junk.totals[aj]),
+    betColumns(activeIds, betResults)
+  );
+  const allDeltas = useMemo(
+    () => netDeltas(activeIds, deltas.map((row, hi) => row.map((d, aj) => d + (junk.deltas[hi]?.[aj] ?? 0))), betResults),
+    [activeIds, deltas, junk, betResults]
+  );
+  const ledgerNotes = [...(notes ?? []), ...junk.notes];
+  const [entryMode, setEntryMode] = useState<"hole" | "grid">("hole");
 
-    let perWinnerGain = W >= L ? stake : stake * (L / W);
-    let perLoserLoss  = W >  L ? stake * (W / L) : stake;
+  // Live scoring: hole edits go out as operations and remote ones merge in
+  const [sync, setSync] = useState<{ session: SyncSession; room: string } | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const latest = useRef<SyncSnapshot>({ players, settings, holes, bets });
+  latest.current = { players, settings, holes, bets };
+  useEffect(() => () => sync?.session.close(), [sync]);
 
-    // --- NEW: Solo = Double ---
-    if (settings.soloDouble && (W === 1 && L >= 2)) {
-      perWinnerGain *= 2;
-      perLoserLoss  *= 2;
+  const startSync = (room: string, server: string, join: boolean) => {
+    const adopt = (s: SyncSnapshot) => {
+      const m = normalizeMatch({ ...s, screen: "play", activeHole: 0 });
+      if (!m) return;
+      editSource.current = RESTORED;
+      setPlayers(m.players);
+      setSettings(m.settings);
+      setHoles(m.holes);
+      setBets(m.bets);
+      setActiveHole(0);
+      setScreen("play");
+    };
+    let transport: SyncTransport;
+    try {
+      transport = roomTransport(room, server);
+    } catch (e) {
+      setSyncError(e instanceof Error ? e.message : String(e));
+      return;
     }
+    setSyncError(null);
+    const session = createSyncSession({
+      transport,
+      snapshot: () => latest.current,
+      onRemote: (ops) => {
+        // Ops for holes this card doesn't have change nothing, and mustn't
+        // take the credit for our next edit
+        if (applyChanges(latest.current.holes, ops) === latest.current.holes) return;
+        editSource.current = `Device ${ops[0]?.device.slice(-4) ?? "?"}`;
+        setHoles((h) => applyChanges(h, ops));
+      },
+      onSnapshot: join ? adopt : undefined,
+      onConflict: (c) => setConflicts((cs) => [...cs.filter((x) => x.path !== c.path), c]),
+    });
+    setSync({ session, room });
+    if (join) session.join();
+  };
 
-    for (const aj of winners) deltas[hi][aj] += perWinnerGain;
-    for (const aj of losers)  deltas[hi][aj] -= perLoserLoss;
+  const leaveSync = () => {
+    setSync(null);
+    setConflicts([]);
+  };
 
-    carry = 0;
-  }
+  // Every change to the card goes out to the room, field by field
+  const editHoles = (action: React.SetStateAction<HoleState[]>) => {
+    const next = typeof action === "function" ? action(holes) : action;
+    sync?.session.edit(cardChanges(holes, next));
+    setHoles(next);
+  };
 
-  const totals = Array(nPlayers).fill(0);
-  deltas.forEach((row) => row.forEach((v, i) => (totals[i] += v)));
+  const updateHole = (hi: number, next: HoleState) => editHoles(holes.map((x, i) => (i === hi ? next : x)));
 
-  return { deltas, totals, activeIdx };
-}
+  const step = (kind: "undo" | "redo") => {
+    const moved = kind === "undo" ? undoEdit(undo) : redoEdit(undo);
+    if (!moved) return;
+    const { edit } = moved;
+    const current = { players, settings, holes, courseName, bets };
+    const next = kind === "undo" ? replayEdit(current, edit.after, edit.before) : replayEdit(current, edit.before, edit.after);
+    sync?.session.edit(cardChanges(holes, next.holes));
+    restore(next);
+    setUndo(moved.state);
+    setLog((l) => appendAudit(l, { at: Date.now(), source: "You", kind, changes: edit.changes }));
+  };
 
-// ---------- App ----------
-export default function SideBetsTracker() {
-  const [players, setPlayers] = useState(["A", "B", "C", "D", ""]);
-  const [settings, setSettings] = useState<Settings>({
-    wager: 1,
-    carryOver: true,
-    soloDouble: false,   // NEW
-    birdieDouble: true,
-    eagleTriple: true,
-  });
-  const [holes, setHoles] = useState<HoleState[]>(
-    Array.from({ length: 18 }, () => ({
-      par: 4,
-      teamPicks: ["Sit", "Sit", "Sit", "Sit", "Sit"],
-      scores: ["", "", "", "", ""],
-    }))
-  );
+  // Re-send our value for a field another device overwrote
+  const keepMine = (c: SyncConflict) => {
+    const change: FieldChange = { path: c.path, value: c.mine };
+    sync?.session.edit([change]);
+    setHoles((h) => applyChanges(h, [change]));
+    setConflicts((cs) => cs.filter((x) => x !== c));
+  };
 
-  const [screen, setScreen] = useState<"setup" | "play" | "ledger">("setup");
-  const [activeHole, setActiveHole] = useState(0);
+  const sharedResult = useMemo(() => {
+    if (!shared) return null;
+    const result = getFormat(shared.settings.format).compute(shared);
+    const sharedJunk = computeJunk(shared);
+    const sharedBets = computeBets(shared.bets, shared.holes, shared.players);
+    const totals = result.totals.map((t, aj) => t + sharedJunk.totals[aj]);
+    return {
+      ...result,
+      totals: netTotals(totals, betColumns(result.activeIds, sharedBets)),
+      notes: [...(result.notes ?? []), ...sharedJunk.notes],
+      junk: sharedJunk.columns,
+      bets: sharedBets,
+    };
+  }, [shared]);
 
-  const { deltas, totals, activeIdx } = useMemo(
-    () => computeDeltas(holes, settings, players),
-    [holes, settings, players]
-  );
+  const closeShared = () => {
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    setShared(null);
+  };
+
+  const openHistory = () => {
+    if (screen !== "history") setReturnTo(screen);
+    setViewing(null);
+    setScreen("history");
+  };
+
+  // Archive the round, then start a fresh card on the same course with the same group
+  const finishRound = async () => {
+    if (!window.confirm("Finish this round? It moves to History and a fresh card starts.")) return;
+    const remembered = rememberPlayers(roster, players);
+    const match = { players: remembered.players, settings, holes, screen, activeHole, courseName, bets };
+    try {
+      await roundStore.put(archiveRound(match, { deltas, totals: grandTotals, activeIds, notes: ledgerNotes, presses }));
+    } catch {
+      window.alert("Couldn't save the round to history. It's still here; try again.");
+      return;
+    }
+    editSource.current = RESTORED;
+    setRoster(remembered.roster);
+    setPlayers(remembered.players);
+    editHoles((h) => h.map((x) => ({ ...newHole(), par: x.par, strokeIndex: x.strokeIndex, yardage: x.yardage })));
+    resetHistory();
+    setActiveHole(0);
+    setReturnTo("setup");
+    setScreen("history");
+  };
+
+  // One more hole on the same sides to settle a carry left at the end
+  const addPlayoffHole = () => {
+    if (holes.length >= MAX_HOLES) return;
+    editHoles((h) => [...h, { ...newHole(), teamPicks: h[h.length - 1].teamPicks }]);
+    setActiveHole(holes.length);
+    setScreen("play");
+  };
+
+  // [hole] → strokes received by player id, when playing net
+  const strokes = useMemo(() => {
+    if (!settings.netScoring) return null;
+    const active = activePlayers(players);
+    return strokeTable(holes, active.map((p) => p.handicap), settings.handicapAllowance).map(
+      (row): Record<string, number> => Object.fromEntries(active.map((p, aj) => [p.id, row[aj]]))
+    );
+  }, [holes, players, settings.netScoring, settings.handicapAllowance]);
 
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="sticky top-0 z-10 bg-white border-b">
         <div className="mx-auto flex max-w-xl items-center justify-between px-4 py-3">
           <h1 className="font-semibold">Side Bets Tracker</h1>
-          {screen !== "setup" && (
-            <button onClick={() => setScreen("setup")} className="text-sm">⚙️ Settings</button>
+          {live && (
+            <div className="flex gap-3">
+              {screen !== "history" && (
+                <>
+                  <button
+                    onClick={() => step("undo")}
+                    disabled={undo.past.length === 0}
+                    title={undo.past.length ? `Undo ${undo.past[undo.past.length - 1].changes.map(changeText).join(", ")}` : undefined}
+                    className="text-sm disabled:opacity-40"
+                  >
+                    ↶ Undo
+                  </button>
+                  <button
+                    onClick={() => step("redo")}
+                    disabled={undo.future.length === 0}
+                    title={undo.future.length ? `Redo ${undo.future[0].changes.map(changeText).join(", ")}` : undefined}
+                    className="text-sm disabled:opacity-40"
+                  >
+                    ↷ Redo
+                  </button>
+                  <button onClick={() => setShowLog((v) => !v)} aria-pressed={showLog} className="text-sm">
+                    📝 Log
+                  </button>
+                </>
+              )}
+              {screen !== "history" && (
+                <button onClick={openHistory} className="text-sm">📚 History</button>
+              )}
+              {screen !== "setup" && (
+                <button onClick={() => setScreen("setup")} className="text-sm">⚙️ Settings</button>
+              )}
+            </div>
           )}
         </div>
       </header>
 
       <main className="mx-auto max-w-xl p-4">
-        {screen === "setup" && (
+        {shared && sharedResult && (
+          <Ledger
+            title={`Shared: ${shared.courseName || "Round"}`}
+            players={shared.players}
+            deltas={sharedResult.deltas}
+            totals={sharedResult.totals}
+            activeIds={sharedResult.activeIds}
+            notes={sharedResult.notes}
+            presses={sharedResult.presses}
+            junk={sharedResult.junk}
+            bets={sharedResult.bets}
+            carries={carryPots(sharedResult.explanations, shared.settings.wager)}
+            match={shared}
+            backLabel="Close"
+            onBack={closeShared}
+          />
+        )}
+
+        {live && showLog && screen !== "history" && (
+          <AuditLog entries={log} holeCount={holes.length} onClose={() => setShowLog(false)} />
+        )}
+
+        {resumeOffer && (
+          <ResumePrompt
+            stored={resumeOffer}
+            onResume={() => resumeMatch(resumeOffer.match)}
+            onStartNew={startNewMatch}
+          />
+        )}
+
+        {live && screen === "setup" && (
           <SetupScreen
             players={players}
             setPlayers={setPlayers}
             settings={settings}
             setSettings={setSettings}
             holes={holes}
-            setHoles={setHoles}
+            setHoles={editHoles}
+            setCourseName={setCourseName}
+            bets={bets}
+            setBets={setBets}
+            roster={roster}
+            setRoster={setRoster}
             onStart={() => setScreen("play")}
           />
         )}
 
-        {screen === "play" && (
-          <HoleEntry
-            holeIndex={activeHole}
+        {live && (screen === "setup" || (screen === "play" && sync)) && (
+          <div className={screen === "setup" ? "mt-4 rounded-xl border bg-white p-4 shadow" : "mb-3"}>
+            <SyncPanel
+              room={sync?.room ?? null}
+              error={syncError}
+              onHost={(room, server) => startSync(room, server, false)}
+              onJoin={(room, server) => startSync(room, server, true)}
+              onLeave={leaveSync}
+            />
+          </div>
+        )}
+
+        {live && screen === "play" &&
+          conflicts.map((c) => (
+            <div key={c.path} role="alert" className="mb-3 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm">
+              {describePath(c.path, players)}: you entered {String(c.mine ?? "nothing")}, another device entered{" "}
+              {String(c.theirs ?? "nothing")}. Kept theirs.
+              <div className="mt-1 flex gap-3">
+                <button onClick={() => keepMine(c)} className="text-xs text-indigo-600 underline">
+                  Use mine
+                </button>
+                <button onClick={() => setConflicts((cs) => cs.filter((x) => x !== c))} className="text-xs underline">
+                  OK
+                </button>
+              </div>
+            </div>
+          ))}
+
+        {live && screen === "play" && (
+          <div className="mb-3 flex gap-2 text-sm">
+            {(["hole", "grid"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setEntryMode(mode)}
+                aria-pressed={entryMode === mode}
+                className={"rounded-lg border px-3 py-1 " + (entryMode === mode ? "bg-indigo-600 text-white" : "bg-white")}
+              >
+                {mode === "hole" ? "Hole by Hole" : "Scorecard"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {live && screen === "play" && entryMode === "hole" && (
+          <>
+            <HoleStrip holes={holes} badges={badges} current={activeHole} onJump={setActiveHole} />
+            <StatusPanel
+              names={playerNames(players, activeIds)}
+              holeIndex={activeHole}
+              deltas={allDeltas}
+              worth={format.holeWorth?.(activeHole, explanations[activeHole], settings) ?? null}
+              sides={format.usesTeamPicks ? sideStatus(explanations, activeHole) : null}
+              sideNames={sideNames(holes[activeHole], activePlayers(players))}
+              presses={presses ?? []}
+            />
+            <HoleEntry
+              holeIndex={activeHole}
+              holeCount={holes.length}
+              players={players}
+              hole={holes[activeHole]}
+              format={format}
+              settings={settings}
+              bets={bets}
+              strokes={strokes ? strokes[activeHole] : null}
+              badge={badges[activeHole]}
+              onUpdate={(next) => updateHole(activeHole, next)}
+              onNext={() => setActiveHole((i) => Math.min(i + 1, holes.length - 1))}
+              onPrev={() => setActiveHole((i) => Math.max(i - 1, 0))}
+              onLedger={() => setScreen("ledger")}
+            />
+          </>
+        )}
+
+        {live && screen === "play" && entryMode === "grid" && (
+          <ScorecardGrid
+            holes={holes}
             players={players}
-            hole={holes[activeHole]}
-            onUpdate={(next) => setHoles((h) => h.map((x, i) => (i === activeHole ? next : x)))}
-            onNext={() => setActiveHole((i) => Math.min(i + 1, 17))}
-            onPrev={() => setActiveHole((i) => Math.max(i - 1, 0))}
+            usesTeamPicks={format.usesTeamPicks}
+            deltas={allDeltas}
+            totals={grandTotals}
+            activeIds={activeIds}
+            badges={badges}
+            onUpdate={updateHole}
+            onOpenHole={(hi) => {
+              setActiveHole(hi);
+              setEntryMode("hole");
+            }}
             onLedger={() => setScreen("ledger")}
           />
         )}
 
-        {screen === "ledger" && (
+        {live && screen === "ledger" && (
           <Ledger
             players={players}
             deltas={deltas}
-            totals={totals}
-            activeIdx={activeIdx}
+            totals={grandTotals}
+            activeIds={activeIds}
+            notes={ledgerNotes}
+            presses={presses}
+            junk={junk.columns}
+            bets={betResults}
+            carries={carryPots(explanations, settings.wager)}
+            problems={scoringProblems(holes, explanations, activePlayers(players), format.usesTeamPicks)}
+            match={{ players, settings, holes, screen, activeHole, courseName, bets }}
+            linkable
+            onPlayoff={carryLeft && holes.length < MAX_HOLES ? addPlayoffHole : undefined}
             onBack={() => setScreen("play")}
+            onSettle={() => setScreen("settle")}
+            onFinish={finishRound}
+          />
+        )}
+
+        {live && screen === "history" && !viewing && (
+          <RoundHistory store={roundStore} roster={roster} onOpen={setViewing} onBack={() => setScreen(returnTo)} />
+        )}
+
+        {live && screen === "history" && viewing && (
+          <Ledger
+            title={`${viewing.match.courseName || "Round"} — ${new Date(viewing.finishedAt).toLocaleDateString()}`}
+            players={viewing.match.players}
+            deltas={viewing.deltas}
+            totals={viewing.totals}
+            activeIds={viewing.activeIds}
+            notes={viewing.notes}
+            presses={viewing.presses}
+            junk={computeJunk(viewing.match).columns}
+            bets={computeBets(viewing.match.bets, viewing.match.holes, viewing.match.players)}
+            match={viewing.match}
+            linkable
+            backLabel="Back to History"
+            onBack={() => setViewing(null)}
+          />
+        )}
+
+        {live && screen === "settle" && (
+          <Settlement
+            players={players}
+            totals={grandTotals}
+            activeIds={activeIds}
+            roster={roster}
+            onBack={() => setScreen("ledger")}
           />
         )}
       </main>
+
+      <UpdatePrompt store={updates} />
+    </div>
+  );
+}
+
+// "Ann & Bob" on each side of a hole
+function sideNames(hole: HoleState, active: Player[]): { t1: string; t2: string } {
+  const { t1, t2 } = teamsOn(hole, active);
+  const names = (team: number[]) => team.map((aj) => active[aj].name).join(" & ");
+  return { t1: names(t1), t2: names(t2) };
+}
+
+// ---------- Resume Prompt ----------
+function ResumePrompt({
+  stored,
+  onResume,
+  onStartNew,
+}: {
+  stored: StoredMatch;
+  onResume: () => void;
+  onStartNew: () => void;
+}) {
+  const { match, savedAt } = stored;
+  const names = activePlayers(match.players).map((p) => p.name).join(", ");
+  const when = savedAt ? new Date(savedAt) : null;
+
+  return (
+    <div className="space-y-4 rounded-xl border bg-white p-4 shadow">
+      <h2 className="text-lg font-semibold">Match in progress</h2>
+      <p className="text-sm text-gray-700">
+        {names || "Unnamed players"} — on hole {match.activeHole + 1}
+        {when && !Number.isNaN(when.getTime()) && <>, saved {when.toLocaleString()}</>}
+      </p>
+      <button onClick={onResume} className="w-full rounded-lg bg-indigo-600 text-white py-2">
+        Resume match
+      </button>
+      <button onClick={onStartNew} className="w-full rounded-lg border py-2">
+        Start new
+      </button>
     </div>
   );
 }
@@ -315,55 +653,74 @@ function SetupScreen({
   setSettings,
   holes,
   setHoles,
+  setCourseName,
+  bets,
+  setBets,
+  roster,
+  setRoster,
   onStart,
 }: {
-  players: string[];
-  setPlayers: React.Dispatch<React.SetStateAction<string[]>>;
+  players: Player[];
+  setPlayers: React.Dispatch<React.SetStateAction<Player[]>>;
   settings: Settings;
   setSettings: (s: Settings) => void;
   holes: HoleState[];
   setHoles: React.Dispatch<React.SetStateAction<HoleState[]>>;
+  setCourseName: (name: string) => void;
+  bets: Bet[];
+  setBets: React.Dispatch<React.SetStateAction<Bet[]>>;
+  roster: Profile[];
+  setRoster: (roster: Profile[]) => void;
   onStart: () => void;
 }) {
-  const [courseName, setCourseName] = useState("");
-  const [savedCourses, setSavedCourses] = useState<{ name: string; pars: number[] }[]>([]);
+  const [customHoles, setCustomHoles] = useState<number | "">("");
 
-  useEffect(() => {
-    const raw = localStorage.getItem("savedCourses");
-    if (raw) {
-      try {
-        setSavedCourses(JSON.parse(raw));
-      } catch {
-        setSavedCourses([]);
-      }
-    }
-  }, []);
-
-  const saveCourse = () => {
-    const name = courseName.trim();
-    if (!name) return;
-    const pars = holes.map((h) => (typeof h.par === "number" ? h.par : 4));
-    const updated = [...savedCourses, { name, pars }];
-    setSavedCourses(updated);
-    localStorage.setItem("savedCourses", JSON.stringify(updated));
-    setCourseName("");
+  // Shrinking the round throws away anything entered on the dropped holes
+  const changeHoleCount = (count: number) => {
+    if (dropsScores(holes, count) && !window.confirm(`Scores after hole ${count} will be lost. Continue?`)) return;
+    setHoles((h) => resizeHoles(h, count));
   };
 
-  const loadCourse = (pars: number[]) => {
-    setHoles((h) =>
-      h.map((x, i): HoleState => ({
-        ...x,
-        par: typeof pars[i] === "number" ? Math.max(3, pars[i]!) : 4,
-      }))
-    );
+  const addPlayer = () => setPlayers((arr) => (arr.length < MAX_PLAYERS ? [...arr, newPlayer()] : arr));
+
+  // A regular takes the first empty slot, or a new one
+  const pickRegular = (profile: Profile) =>
+    setPlayers((arr) => {
+      const player = playerFromProfile(profile);
+      const blank = arr.findIndex((p) => p.name.trim() === "");
+      if (blank >= 0) return arr.map((p, i) => (i === blank ? { ...player, id: p.id } : p));
+      return arr.length < MAX_PLAYERS ? [...arr, player] : arr;
+    });
+
+  const saveGroup = () => {
+    const remembered = rememberPlayers(roster, players);
+    setRoster(remembered.roster);
+    setPlayers(remembered.players);
   };
 
+  const removePlayer = (id: string) => {
+    setPlayers((arr) => arr.filter((p) => p.id !== id));
+    setHoles((h) => removePlayerFromHoles(h, id));
+    setBets((bs) => bs.map((b) => ({ ...b, playerIds: b.playerIds.filter((x) => x !== id) })));
+  };
+
+  const format = getFormat(settings.format);
+
   return (
     <div className="space-y-4 rounded-xl border bg-white p-4 shadow">
       <h2 className="text-lg font-semibold">Match Setup</h2>
 
+      <div className="flex items-center justify-between">
+        <span>Game</span>
+        <Select
+          value={settings.format}
+          onChange={(v) => setSettings({ ...settings, format: v as FormatId })}
+          options={FORMATS.map((f) => ({ label: f.name, value: f.id }))}
+        />
+      </div>
+
       <div>
-        <Label>Wager / Hole ($)</Label>
+        <Label>{format.wagerLabel}</Label>
         <NumberField
           value={settings.wager}
           step={0.5}
@@ -372,88 +729,169 @@ function SetupScreen({
         />
       </div>
 
-      <div className="flex justify-between"><span>Carry Over</span><Toggle checked={settings.carryOver} onChange={(v) => setSettings({ ...settings, carryOver: v })} /></div>
+      <format.SettingsPanel settings={settings} setSettings={setSettings} />
 
-      {/* NEW Solo = Double */}
-      <div className="flex justify-between"><span>Solo = Double</span><Toggle checked={settings.soloDouble} onChange={(v) => setSettings({ ...settings, soloDouble: v })} /></div>
+      <div className="flex justify-between"><span>Net Scoring (handicaps)</span><Toggle checked={settings.netScoring} onChange={(v) => setSettings({ ...settings, netScoring: v })} /></div>
+      {settings.netScoring && (
+        <>
+          <div>
+            <Label>Handicap Allowance (%)</Label>
+            <NumberField
+              value={settings.handicapAllowance}
+              min={0}
+              onChange={(v) => setSettings({ ...settings, handicapAllowance: v === "" ? 0 : Math.min(100, Number(v)) })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Multipliers on</span>
+            <Select
+              value={settings.multiplierBasis}
+              onChange={(v) => setSettings({ ...settings, multiplierBasis: v as ScoreBasis })}
+              options={[
+                { label: "Gross", value: "gross" },
+                { label: "Net", value: "net" },
+              ]}
+            />
+          </div>
+        </>
+      )}
 
-      <div className="flex justify-between"><span>Birdie = Double</span><Toggle checked={settings.birdieDouble} onChange={(v) => setSettings({ ...settings, birdieDouble: v })} /></div>
-      <div className="flex justify-between"><span>Eagle = Triple</span><Toggle checked={settings.eagleTriple} onChange={(v) => setSettings({ ...settings, eagleTriple: v })} /></div>
+      <JunkSettings bets={settings.junkBets} onChange={(junkBets) => setSettings({ ...settings, junkBets })} />
 
-      <h3 className="font-medium mt-4">Players (max 5)</h3>
+      <h3 className="font-medium mt-4">Players</h3>
+      <RegularsPicker
+        roster={roster}
+        players={players}
+        full={players.length >= MAX_PLAYERS && players.every((p) => p.name.trim() !== "")}
+        onPick={pickRegular}
+      />
       {players.map((p, i) => (
-        <input
-          key={i}
-          type="text"
-          value={p}
-          onChange={(e) => {
-            const next = [...players];
-            next[i] = e.target.value;
-            setPlayers(next);
-          }}
-          placeholder={`Player ${i + 1}`}
-          className="w-full rounded-md border px-3 py-2 mb-2"
-        />
+        <div key={p.id} className="flex gap-2 mb-2">
+          <input
+            type="text"
+            value={p.name}
+            onChange={(e) => {
+              const name = e.target.value;
+              setPlayers((arr) => arr.map((x) => (x.id === p.id ? renamePlayer(x, name, roster) : x)));
+            }}
+            placeholder={`Player ${i + 1}`}
+            className="flex-1 rounded-md border px-3 py-2"
+          />
+          {settings.netScoring && (
+            <div className="w-20">
+              <NumberField
+                value={p.handicap}
+                min={0}
+                label={`${p.name || `Player ${i + 1}`} handicap`}
+                onChange={(v) => setPlayers((arr) => arr.map((x) => (x.id === p.id ? { ...x, handicap: v } : x)))}
+                className="text-center"
+              />
+            </div>
+          )}
+          <button
+            onClick={() => removePlayer(p.id)}
+            disabled={players.length <= 2}
+            aria-label={`Remove ${p.name || `Player ${i + 1}`}`}
+            className="px-2 text-gray-500 disabled:opacity-30"
+          >
+            ✕
+          </button>
+        </div>
       ))}
+      {settings.netScoring && <p className="text-xs text-gray-500">Handicap beside each name.</p>}
+      <button
+        onClick={addPlayer}
+        disabled={players.length >= MAX_PLAYERS}
+        className="rounded-lg border px-3 py-1 text-sm disabled:opacity-50"
+      >
+        + Add Player
+      </button>
+      <RosterEditor roster={roster} onChange={setRoster} onSavePlayers={saveGroup} />
+
+      <SideBets bets={bets} players={players} main={settings} onChange={setBets} />
+
+      <h3 className="font-medium mt-4">Holes</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        {[9, 18, 27].map((n) => (
+          <button
+            key={n}
+            onClick={() => changeHoleCount(n)}
+            aria-pressed={holes.length === n}
+            className={"rounded-lg border px-3 py-1 " + (holes.length === n ? "bg-indigo-600 text-white" : "")}
+          >
+            {n}
+          </button>
+        ))}
+        <div className="w-20">
+          <NumberField value={customHoles} min={1} label="Custom hole count" onChange={setCustomHoles} />
+        </div>
+        <button
+          onClick={() => customHoles !== "" && changeHoleCount(customHoles)}
+          disabled={customHoles === ""}
+          className="rounded-lg border px-3 py-1 disabled:opacity-50"
+        >
+          Set
+        </button>
+      </div>
+      {holes.length * 2 <= MAX_HOLES && (
+        <button onClick={() => setHoles((h) => repeatHoles(h))} className="rounded-lg border px-3 py-1 text-sm">
+          🔁 Play these {holes.length} twice
+        </button>
+      )}
 
-      <h3 className="font-medium mt-4">Course Setup (Par per Hole)</h3>
+      {format.usesTeamPicks && (
+        <>
+          <h3 className="font-medium mt-4">Teams</h3>
+          <TeamBuilder players={players} holes={holes} onApply={setHoles} />
+        </>
+      )}
+
+      <h3 className="font-medium mt-4">Course Setup</h3>
+      <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+        <span className="w-16" />
+        <span className="flex-1">Par</span>
+        <span className="flex-1">Stroke Index</span>
+        <span className="flex-1">Yards</span>
+      </div>
       {holes.map((h, i) => (
         <div key={i} className="flex items-center gap-2 mb-1">
           <span className="w-16">Hole {i + 1}</span>
           <NumberField
             value={h.par}
-            min={3}
             step={1}
+            label={`Hole ${i + 1} par`}
             onChange={(v) =>
               setHoles((arr) => arr.map((x, hi) => (hi === i ? { ...x, par: v } : x)))
             }
           />
-        </div>
-      ))}
-
-      <div className="mt-4">
-        <Label>Save Course</Label>
-        <div className="flex gap-2 mt-1">
-          <input
-            type="text"
-            value={courseName}
-            onChange={(e) => setCourseName(e.target.value)}
-            placeholder="Course Name"
-            className="flex-1 rounded-md border px-3 py-2"
+          <NumberField
+            value={h.strokeIndex}
+            min={1}
+            step={1}
+            label={`Hole ${i + 1} stroke index`}
+            onChange={(v) =>
+              setHoles((arr) => arr.map((x, hi) => (hi === i ? { ...x, strokeIndex: v } : x)))
+            }
+          />
+          <NumberField
+            value={h.yardage}
+            min={1}
+            step={1}
+            label={`Hole ${i + 1} yards`}
+            onChange={(v) =>
+              setHoles((arr) => arr.map((x, hi) => (hi === i ? { ...x, yardage: v } : x)))
+            }
           />
-          <button onClick={saveCourse} className="rounded-lg bg-indigo-600 text-white px-3 py-2">
-            Save
-          </button>
         </div>
+      ))}
 
-        {savedCourses.length > 0 && (
-          <div className="mt-3">
-            <Label>Load Course</Label>
-            <div className="space-y-1">
-              {savedCourses.map((c, idx) => (
-                <div key={idx} className="flex items-center gap-2">
-                  <button
-                    onClick={() => loadCourse(c.pars)}
-                    className="flex-1 rounded border px-3 py-1 text-left hover:bg-gray-100"
-                  >
-                    {c.name}
-                  </button>
-                  <button
-                    onClick={() => {
-                      const updated = savedCourses.filter((_, i) => i !== idx);
-                      setSavedCourses(updated);
-                      localStorage.setItem("savedCourses", JSON.stringify(updated));
-                    }}
-                    className="text-xs text-red-600 underline"
-                  >
-                    Delete
-                  </button>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-      </div>
+      <CourseLibrary
+        holes={holes}
+        onApply={(tee, course) => {
+          setHoles((h) => applyTee(h, tee));
+          setCourseName(course.tees.length > 1 ? `${course.name} (${tee.name})` : course.name);
+        }}
+      />
 
       <button onClick={onStart} className="w-full rounded-lg bg-indigo-600 text-white py-2">
         Start Match
@@ -465,85 +903,119 @@ function SetupScreen({
 // ---------- Hole Entry ----------
 function HoleEntry({
   holeIndex,
+  holeCount,
   players,
   hole,
+  format,
+  settings,
+  bets,
+  strokes,
+  badge,
   onUpdate,
   onNext,
   onPrev,
   onLedger,
 }: {
   holeIndex: number;
-  players: string[];
+  holeCount: number;
+  players: Player[];
   hole: HoleState;
+  format: GameFormat;
+  settings: Settings;
+  bets: Bet[];
+  strokes: Record<string, number> | null;  // strokes received by player id, when playing net
+  badge: HoleBadge;
   onUpdate: (h: HoleState) => void;
   onNext: () => void;
   onPrev: () => void;
   onLedger: () => void;
 }) {
-  // Random team generator
-  const randomizeTeams = () => {
-    const newTeams: TeamPick[] = players.map((p) => {
-      if (!p.trim()) return "Sit";
-      return Math.random() < 0.5 ? "T1" : "T2";
-    });
-    onUpdate({ ...hole, teamPicks: newTeams });
-  };
+  const active = activePlayers(players);
+
+  // Random team generator: sides differ by at most one
+  const randomizeTeams = () => onUpdate({ ...hole, teamPicks: balancedSplit(active.map((p) => p.id)) });
+  const missing = missingScores(hole, active, format.usesTeamPicks);
+  const parWarning = parProblem(hole.par);
 
   return (
     <div className="rounded-xl border bg-white p-4 shadow relative">
       {/* Header with hole number + randomize button */}
       <div className="flex justify-between items-center mb-2">
-        <h2 className="text-lg font-semibold">Hole {holeIndex + 1}</h2>
-        <button
-          onClick={randomizeTeams}
-          className="rounded-lg bg-green-600 text-white px-3 py-1 text-sm hover:bg-green-700"
-        >
-          🎲 Randomize
-        </button>
+        <h2 className="text-lg font-semibold">
+          Hole {holeIndex + 1}{" "}
+          <span className="text-sm font-normal text-gray-500">
+            of {holeCount}
+            {hole.yardage !== "" && <> · {hole.yardage} yds</>}
+          </span>{" "}
+          <HoleStatusBadge badge={badge} />
+        </h2>
+        {format.usesTeamPicks && (
+          <button
+            onClick={randomizeTeams}
+            className="rounded-lg bg-green-600 text-white px-3 py-1 text-sm hover:bg-green-700"
+          >
+            🎲 Randomize
+          </button>
+        )}
       </div>
 
+      {missing.length > 0 && (
+        <p className="mb-2 text-xs text-gray-500">Needs a score from {missing.map((p) => p.name).join(", ")}</p>
+      )}
+
       <div className="mb-4">
         <Label>Par</Label>
         <NumberField
           value={hole.par}
-          min={3}
           step={1}
+          label="Par"
           onChange={(v) => onUpdate({ ...hole, par: v })}
         />
+        {parWarning && <p className="mt-1 text-xs text-amber-700">{parWarning}</p>}
       </div>
 
-      {players
-        .filter((p) => p.trim())
-        .map((p, i) => (
-          <div key={i} className="mb-3">
-            <span className="font-medium">{p}</span>
+      {format.HoleInputs && (
+        <format.HoleInputs holeIndex={holeIndex} hole={hole} players={players} settings={settings} onUpdate={onUpdate} />
+      )}
+
+      <BetHoleInputs holeIndex={holeIndex} hole={hole} bets={bets} players={players} onUpdate={onUpdate} />
+
+      {active.map((p) => {
+        const got = strokes?.[p.id] ?? 0;
+        const problem = scoreProblem(scoreOf(hole, p.id), hole.par);
+        return (
+          <div key={p.id} className="mb-3">
+            <span className="font-medium">{p.name}</span>
+            {got !== 0 && (
+              <span className="ml-2 text-xs text-indigo-600">
+                {got > 0 ? "•".repeat(got) : `+${-got}`}
+              </span>
+            )}
             <div className="flex gap-2 mt-1">
-              <Select
-                value={hole.teamPicks[i]}
-                onChange={(val) => {
-                  const tp = [...hole.teamPicks];
-                  tp[i] = val as TeamPick;
-                  onUpdate({ ...hole, teamPicks: tp });
-                }}
-                options={[
-                  { label: "T1", value: "T1" },
-                  { label: "T2", value: "T2" },
-                  { label: "Sit", value: "Sit" },
-                ]}
-              />
+              {format.usesTeamPicks && (
+                <Select
+                  value={pickOf(hole, p.id)}
+                  label={`${p.name} team`}
+                  onChange={(val) => onUpdate({ ...hole, teamPicks: { ...hole.teamPicks, [p.id]: val as TeamPick } })}
+                  options={[
+                    { label: "T1", value: "T1" },
+                    { label: "T2", value: "T2" },
+                    { label: "Sit", value: "Sit" },
+                  ]}
+                />
+              )}
               <NumberField
-                value={hole.scores[i]}
-                min={1}
+                value={scoreOf(hole, p.id)}
                 step={1}
-                onChange={(v) => {
-                  const sc = [...hole.scores];
-                  sc[i] = v;
-                  onUpdate({ ...hole, scores: sc });
-                }}
+                label={`${p.name} score`}
+                onChange={(v) => onUpdate({ ...hole, scores: { ...hole.scores, [p.id]: v } })}
               />
             </div>
+            {problem && <p role="alert" className="mt-1 text-xs text-red-600">{p.name}'s {problem}: check the score</p>}
+            <JunkDots hole={hole} bets={settings.junkBets} player={p} onUpdate={onUpdate} />
           </div>
-        ))}
+        );
+      })}
 
       {/* Bottom navigation buttons */}
       <div className="flex justify-between mt-4">
@@ -559,7 +1031,7 @@ function HoleEntry({
         </button>
         <button
           onClick={onNext}
-          disabled={holeIndex === 17}
+          disabled={holeIndex === holeCount - 1}
           className="rounded-lg border px-4 py-2"
         >
           Next
@@ -570,66 +1042,486 @@ function HoleEntry({
 }
 
 // ---------- Ledger ----------
+// With side bets, the ledger has a tab for the main game, one per bet and
+// a combined net per player
 function Ledger({
   players,
   deltas,
   totals,
-  activeIdx,
+  activeIds,
+  notes,
+  presses = [],
+  junk = [],
+  bets = [],
+  carries = [],
+  problems = [],
+  match,
+  linkable = false,
+  title = "Ledger",
+  backLabel = "Back to Hole",
   onBack,
+  onSettle,
+  onFinish,
+  onPlayoff,
 }: {
-  players: string[];
-  deltas: number[][];
-  totals: number[];
-  activeIdx: number[];
+  players: Player[];
+  deltas: number[][];               // cents, main game
+  totals: number[];                 // cents, junk and side bets included
+  activeIds: string[];
+  notes?: string[];
+  presses?: PressResult[];
+  junk?: JunkColumn[];              // junk bets, shown apart from the format's bet
+  bets?: BetResult[];               // side bets, each on its own tab
+  carries?: number[];               // cents riding on each hole from earlier ties
+  problems?: HoleProblem[];         // holes that didn't count, and scores to check
+  match?: MatchState;               // enables the scorecard image and share link
+  linkable?: boolean;
+  title?: string;
+  backLabel?: string;
   onBack: () => void;
+  onSettle?: () => void;            // omitted for a read-only (archived) round
+  onFinish?: () => void;
+  onPlayoff?: () => void;           // offered while a carry waits on a playoff hole
 }) {
-  const activeNames = activeIdx.map((oi) => players[oi]);
+  const [tab, setTab] = useState("main");
+  const activeNames = playerNames(players, activeIds);
+  const unbalanced = findUnbalancedHoles(deltas);
+  const betCols = betColumns(activeIds, bets);
+  const mainTotals = totals.map((t, pi) => t - betCols.reduce((sum, col) => sum + col.amounts[pi], 0));
+  const bet = bets.find((b) => b.id === tab);
+  const current = bet || tab === "combined" ? tab : "main";   // a removed bet's tab falls back to Main
+  const tabs = [{ id: "main", label: "Main" }, ...bets.map((b) => ({ id: b.id, label: b.name })), { id: "combined", label: "Combined" }];
 
   return (
     <div className="rounded-xl border bg-white p-4 shadow">
-      <h2 className="text-lg font-semibold mb-3">Ledger</h2>
-      <div className="overflow-x-auto">
-        <table className="w-full text-xs mb-3 border-collapse">
-          <thead>
-            <tr>
-              <th className="sticky left-0 bg-white text-left">Player</th>
+      <h2 className="text-lg font-semibold mb-3">{title}</h2>
+      {unbalanced.length > 0 && (
+        <div role="alert" className="mb-3 rounded-md border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+          ⚠️ Payouts don't net to zero on {unbalanced.map((hi) => `H${hi + 1}`).join(", ")}. Check those holes before settling up.
+        </div>
+      )}
+      {problems.length > 0 && (
+        <div aria-label="Scoring problems" className="mb-3 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <p className="font-medium">Not counted or needs a look:</p>
+          <ul>
+            {problems.map((pr, k) => (
+              <li key={k}>
+                H{pr.hole + 1}: {pr.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {bets.length > 0 && (
+        <div role="tablist" className="mb-3 flex flex-wrap gap-2 text-sm">
+          {tabs.map((t) => (
+            <button
+              key={t.id}
+              role="tab"
+              aria-selected={current === t.id}
+              onClick={() => setTab(t.id)}
+              className={"rounded-lg border px-3 py-1 " + (current === t.id ? "bg-indigo-600 text-white" : "bg-white")}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {current === "combined" ? (
+        <CombinedTable names={activeNames} main={mainTotals} bets={betCols} totals={totals} />
+      ) : bet ? (
+        <>
+          <LedgerTable
+            names={playerNames(players, bet.activeIds)}
+            deltas={bet.deltas}
+            totals={bet.totals}
+            presses={bet.presses}
+            carries={bet.carries}
+          />
+          <PressTable names={playerNames(players, bet.activeIds)} presses={bet.presses} />
+          <Notes notes={bet.notes} />
+        </>
+      ) : (
+        <>
+          <LedgerTable names={activeNames} deltas={deltas} totals={mainTotals} presses={presses} junk={junk} carries={carries} />
+          <PressTable names={activeNames} presses={presses} />
+          <Notes notes={notes} />
+        </>
+      )}
+      {onPlayoff && (
+        <button onClick={onPlayoff} className="mb-3 w-full rounded-lg border border-amber-400 bg-amber-50 py-2 text-sm">
+          ⛳ Play a Playoff Hole
+        </button>
+      )}
+      <LedgerExports
+        title={title === "Ledger" ? match?.courseName || "Side Bets" : title}
+        names={activeNames}
+        deltas={deltas}
+        totals={totals}
+        activeIds={activeIds}
+        presses={presses}
+        junk={junk}
+        bets={betCols}
+        match={match}
+        linkable={linkable}
+      />
+      <div className="flex justify-between">
+        <button onClick={onBack} className="rounded-lg border px-4 py-2">
+          {backLabel}
+        </button>
+        {onSettle && (
+          <button onClick={onSettle} className="rounded-lg bg-indigo-600 text-white px-4 py-2">
+            Settle Up
+          </button>
+        )}
+      </div>
+      {onFinish && (
+        <button onClick={onFinish} className="mt-3 w-full rounded-lg border py-2">
+          🏁 Finish Round
+        </button>
+      )}
+    </div>
+  );
+}
+
+const tone = (c: number) => (c > 0 ? "text-green-600" : c < 0 ? "text-red-600" : "");
+
+// Hole-by-hole money for one game, with presses and junk beside the total
+function LedgerTable({
+  names,
+  deltas,
+  totals,
+  presses,
+  junk = [],
+  carries,
+}: {
+  names: string[];
+  deltas: number[][];               // cents
+  totals: number[];                 // cents, junk included
+  presses: PressResult[];
+  junk?: JunkColumn[];
+  carries: number[];
+}) {
+  const pressTotal = (pi: number) => presses.reduce((sum, p) => sum + p.amounts[pi], 0);
+  const betTotal = (pi: number) => totals[pi] - junk.reduce((sum, col) => sum + col.amounts[pi], 0);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs mb-3 border-collapse">
+        <thead>
+          <tr>
+            <th className="sticky left-0 bg-white text-left">Player</th>
+            {deltas.map((_, hi) => (
+              <th key={hi}>H{hi + 1}</th>
+            ))}
+            {presses.length > 0 && <th>Presses</th>}
+            {junk.length > 0 && <th className="border-l">Bet</th>}
+            {junk.map((col) => (
+              <th key={col.betId}>{col.name}</th>
+            ))}
+            <th className="sticky right-0 bg-white">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {names.map((p, pi) => (
+            <tr key={pi}>
+              <td className="sticky left-0 bg-white font-medium">{p}</td>
+              {deltas.map((row, hi) => {
+                const d = row[pi] || 0;
+                return (
+                  <td key={hi} className={tone(d)}>
+                    {formatCents(d)}
+                  </td>
+                );
+              })}
+              {presses.length > 0 && <td className={tone(pressTotal(pi))}>{formatCents(pressTotal(pi))}</td>}
+              {junk.length > 0 && <td className={"border-l " + tone(betTotal(pi))}>{formatCents(betTotal(pi))}</td>}
+              {junk.map((col) => (
+                <td key={col.betId} className={tone(col.amounts[pi])}>
+                  {formatCents(col.amounts[pi])}
+                </td>
+              ))}
+              <td className={"sticky right-0 bg-white " + tone(totals[pi])}>{formatCents(totals[pi])}</td>
+            </tr>
+          ))}
+          {carries.some((c) => c > 0) && (
+            <tr className="text-gray-500">
+              <td className="sticky left-0 bg-white">Carry</td>
               {deltas.map((_, hi) => (
-                <th key={hi}>H{hi + 1}</th>
+                <td key={hi}>{carries[hi] ? formatDollars(carries[hi]) : ""}</td>
               ))}
-              <th className="sticky right-0 bg-white">Total</th>
+              {presses.length > 0 && <td />}
+              {junk.length > 0 && <td colSpan={junk.length + 1} />}
+              <td className="sticky right-0 bg-white" />
             </tr>
-          </thead>
-          <tbody>
-            {activeNames.map((p, pi) => (
-              <tr key={pi}>
-                <td className="sticky left-0 bg-white font-medium">{p}</td>
-                {deltas.map((row, hi) => {
-                  const d = row[pi] || 0;
-                  return (
-                    <td key={hi} className={d > 0 ? "text-green-600" : d < 0 ? "text-red-600" : ""}>
-                      {d === 0 ? "$0" : (d > 0 ? "+$" : "-$") + Math.abs(d).toFixed(2)}
-                    </td>
-                  );
-                })}
-                <td
-                  className={
-                    totals[pi] > 0
-                      ? "sticky right-0 bg-white text-green-600"
-                      : totals[pi] < 0
-                      ? "sticky right-0 bg-white text-red-600"
-                      : "sticky right-0 bg-white"
-                  }
-                >
-                  {totals[pi] === 0 ? "$0" : (totals[pi] > 0 ? "+$" : "-$") + Math.abs(totals[pi]).toFixed(2)}
-                </td>
-              </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PressTable({ names, presses }: { names: string[]; presses: PressResult[] }) {
+  if (presses.length === 0) return null;
+  return (
+    <div className="mb-3 overflow-x-auto">
+      <h3 className="font-medium">Presses</h3>
+      <table className="w-full text-xs border-collapse">
+        <thead>
+          <tr>
+            <th className="text-left">Bet</th>
+            <th className="text-left">Result</th>
+            {names.map((p, pi) => (
+              <th key={pi}>{p}</th>
             ))}
-          </tbody>
-        </table>
-      </div>
-      <button onClick={onBack} className="rounded-lg border px-4 py-2">
-        Back to Hole
+          </tr>
+        </thead>
+        <tbody>
+          {presses.map((press, k) => (
+            <tr key={k}>
+              <td className="font-medium">{press.label}</td>
+              <td className={press.settled ? "" : "text-gray-500"}>{press.summary}</td>
+              {press.amounts.map((c, pi) => (
+                <td key={pi} className={tone(c)}>{formatCents(c)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function Notes({ notes }: { notes?: string[] }) {
+  if (!notes || notes.length === 0) return null;
+  return (
+    <ul className="mb-3 space-y-1 text-sm text-gray-700">
+      {notes.map((n, k) => (
+        <li key={k}>{n}</li>
+      ))}
+    </ul>
+  );
+}
+
+// Each player's result in every game and what they net overall
+function CombinedTable({
+  names,
+  main,
+  bets,
+  totals,
+}: {
+  names: string[];
+  main: number[];                   // cents, main game and junk
+  bets: BetColumn[];
+  totals: number[];                 // cents, net
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table aria-label="Combined" className="w-full text-sm mb-3 border-collapse">
+        <thead>
+          <tr>
+            <th className="text-left">Player</th>
+            <th className="text-right">Main</th>
+            {bets.map((col) => (
+              <th key={col.betId} className="text-right">{col.name}</th>
+            ))}
+            <th className="text-right">Net</th>
+          </tr>
+        </thead>
+        <tbody>
+          {names.map((name, pi) => (
+            <tr key={pi}>
+              <td className="font-medium">{name}</td>
+              <td className={"text-right " + tone(main[pi])}>{formatCents(main[pi])}</td>
+              {bets.map((col) => (
+                <td key={col.betId} className={"text-right " + tone(col.amounts[pi])}>{formatCents(col.amounts[pi])}</td>
+              ))}
+              <td className={"text-right font-medium " + tone(totals[pi])}>{formatCents(totals[pi])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// CSV always; the image and link need the full match
+function LedgerExports({
+  title,
+  names,
+  deltas,
+  totals,
+  activeIds,
+  presses,
+  junk,
+  bets,
+  match,
+  linkable,
+}: {
+  title: string;
+  names: string[];
+  deltas: number[][];
+  totals: number[];
+  activeIds: string[];
+  presses: PressResult[];
+  junk: JunkColumn[];
+  bets: BetColumn[];
+  match?: MatchState;
+  linkable: boolean;
+}) {
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const exportImage = async () => {
+    if (!match) return;
+    const canvas = drawScorecard(match, { activeIds, deltas, totals, presses, junk, bets }, title);
+    const blob = canvas && (await scorecardBlob(canvas));
+    if (!blob) return;
+    const file = new File([blob], "scorecard.png", { type: "image/png" });
+    try {
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title });
+        return;
+      }
+    } catch {
+      // Share sheet dismissed or refused — fall back to a download
+    }
+    downloadFile("scorecard.png", blob, "image/png");
+  };
+
+  const copyLink = async () => {
+    if (!match) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl(match));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setLinkCopied(false);
+    }
+  };
+
+  return (
+    <div className="mb-3 flex flex-wrap gap-2 text-sm">
+      <button
+        onClick={() => downloadFile("ledger.csv", ledgerCsv(names, deltas, totals, presses, junk, bets), "text/csv")}
+        className="rounded-lg border px-3 py-1"
+      >
+        ⬇️ CSV
       </button>
+      {match && (
+        <button onClick={exportImage} className="rounded-lg border px-3 py-1">
+          🖼️ Image
+        </button>
+      )}
+      {match && linkable && (
+        <button onClick={copyLink} className="rounded-lg border px-3 py-1">
+          {linkCopied ? "Copied ✓" : "🔗 Copy Link"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ---------- Settlement ----------
+// Settled per person: a regular entered twice pays or collects once
+function Settlement({
+  players,
+  totals: slotTotals,
+  activeIds,
+  roster,
+  onBack,
+}: {
+  players: Player[];
+  totals: number[];                 // cents, by active player
+  activeIds: string[];
+  roster: Profile[];
+  onBack: () => void;
+}) {
+  const active = activeIds.map((id) => players.find((p) => p.id === id) ?? { id, name: "", handicap: "" as const });
+  const { people, balances: totals } = mergeBalances(active.map((p) => playerKey(p, roster)), slotTotals);
+  const names = people.map((i) => active[i].name);
+  const handles = people.map((i) => profileOf(active[i], roster)?.payHandle.trim() ?? "");
+  // Money already handed over before settling: + paid out, − received (dollars, as typed)
+  const [paid, setPaid] = useState<string[]>(() => names.map(() => ""));
+  const [copied, setCopied] = useState(false);
+
+  const balances = totals.map((t, i) => {
+    const v = Number(paid[i] ?? "");
+    return t + (Number.isNaN(v) ? 0 : toCents(v));
+  });
+  const imbalance = settlementImbalance(balances);
+  const transfers = imbalance === 0 ? computeSettlement(balances) : [];
+
+  const copySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(settlementSummary(names, transfers, handles));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border bg-white p-4 shadow">
+      <h2 className="text-lg font-semibold">Settle Up</h2>
+
+      <div>
+        <Label>Already paid (+) / received (−)</Label>
+        {names.map((name, i) => (
+          <div key={i} className="flex items-center gap-2 mt-1">
+            <span className="flex-1">{name}</span>
+            <span className={"w-20 text-right text-sm " + (totals[i] > 0 ? "text-green-600" : totals[i] < 0 ? "text-red-600" : "")}>
+              {formatCents(totals[i])}
+            </span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={paid[i] ?? ""}
+              onChange={(e) => {
+                const next = [...paid];
+                next[i] = e.target.value;
+                setPaid(next);
+              }}
+              placeholder="0.00"
+              aria-label={`${name} already paid`}
+              className="w-24 rounded-md border border-gray-300 px-2 py-1 text-right"
+            />
+          </div>
+        ))}
+      </div>
+
+      {imbalance !== 0 ? (
+        <div role="alert" className="rounded-md border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+          ⚠️ Adjustments are off by {formatDollars(imbalance)} — every dollar paid should match one received.
+        </div>
+      ) : transfers.length === 0 ? (
+        <p className="text-sm text-gray-700">All square, nobody owes anything.</p>
+      ) : (
+        <ul className="space-y-1">
+          {transfers.map((t, k) => (
+            <li key={k} className="flex justify-between rounded border px-3 py-2">
+              <span>
+                <span className="font-medium">{names[t.from]}</span> → <span className="font-medium">{names[t.to]}</span>
+                {handles[t.to] && <span className="ml-1 text-xs text-gray-500">{handles[t.to]}</span>}
+              </span>
+              <span>{formatDollars(t.cents)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-between">
+        <button onClick={onBack} className="rounded-lg border px-4 py-2">
+          Back to Ledger
+        </button>
+        <button
+          onClick={copySummary}
+          disabled={imbalance !== 0}
+          className="rounded-lg bg-indigo-600 text-white px-4 py-2 disabled:opacity-50"
+        >
+          {copied ? "Copied ✓" : "📋 Copy Summary"}
+        </button>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { AuditEntry, changeText } from "./undo";
+import { Select } from "./ui";
+
+const KIND_TEXT: Record<AuditEntry["kind"], string> = { edit: "", undo: "Undid: ", redo: "Redid: " };
+
+// ---------- Audit Log ----------
+// Who changed what, newest first, for settling arguments after the round.
+// Filtering by hole keeps only the changes to that hole.
+export function AuditLog({
+  entries,
+  holeCount,
+  onClose,
+}: {
+  entries: AuditEntry[];
+  holeCount: number;
+  onClose: () => void;
+}) {
+  const [hole, setHole] = useState("");
+  const shown = entries
+    .map((e) => ({ ...e, changes: hole ? e.changes.filter((c) => c.key.startsWith(`H${hole}.`)) : e.changes }))
+    .filter((e) => e.changes.length > 0)
+    .reverse();
+
+  return (
+    <div className="mb-4 space-y-3 rounded-xl border bg-white p-4 shadow">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Change Log</h2>
+        <Select
+          value={hole}
+          label="Log hole"
+          onChange={setHole}
+          options={[
+            { label: "All holes", value: "" },
+            ...Array.from({ length: holeCount }, (_, hi) => ({ label: `Hole ${hi + 1}`, value: String(hi + 1) })),
+          ]}
+        />
+      </div>
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-700">No changes yet.</p>
+      ) : (
+        <ol aria-label="Changes" className="max-h-80 space-y-2 overflow-y-auto text-sm">
+          {shown.map((e, k) => (
+            <li key={k} className="border-b pb-1">
+              <div className="text-xs text-gray-500">
+                {new Date(e.at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })} · {e.source}
+              </div>
+              {e.changes.map((c) => (
+                <div key={c.key}>
+                  {KIND_TEXT[e.kind]}
+                  {changeText(c)}
+                </div>
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+      <button onClick={onClose} className="rounded-lg border px-4 py-2">
+        Close
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import { dropsScores, HoleState } from "./match";
+import {
+  Course,
+  coursesToCsv,
+  coursesToJson,
+  loadCourses,
+  newCourseId,
+  parseCourseFile,
+  removeCourse,
+  removeTee,
+  renameCourse,
+  saveCourses,
+  TeeSet,
+  teeFromHoles,
+  upsertCourse,
+} from "./courses";
+import { downloadFile } from "./download";
+import { Label } from "./ui";
+
+// ---------- Course Library ----------
+// Saving under an existing course and tee name overwrites it, so editing a
+// course is: load the tee, change the holes above, save again.
+export function CourseLibrary({
+  holes,
+  onApply,
+}: {
+  holes: HoleState[];
+  onApply: (tee: TeeSet, course: Course) => void;
+}) {
+  const [courses, setCourses] = useState<Course[]>(() => loadCourses());
+  const [courseName, setCourseName] = useState("");
+  const [teeName, setTeeName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [message, setMessage] = useState("");
+
+  const update = (next: Course[]) => {
+    setCourses(next);
+    saveCourses(next);
+  };
+
+  const saveCourse = () => {
+    const name = courseName.trim();
+    if (!name) return;
+    const tee = teeFromHoles(teeName, holes);
+    update(upsertCourse(courses, { id: newCourseId(), name, tees: [tee] }));
+    setMessage(`Saved ${name} (${tee.name})`);
+  };
+
+  const load = (c: Course, tee: TeeSet) => {
+    const count = tee.holes.length;
+    if (dropsScores(holes, count) && !window.confirm(`Scores after hole ${count} will be lost. Continue?`)) return;
+    onApply(tee, c);
+    setCourseName(c.name);
+    setTeeName(tee.name);
+    setMessage(`Loaded ${c.name} (${tee.name})`);
+  };
+
+  const finishRename = () => {
+    if (!renaming) return;
+    const next = renameCourse(courses, renaming.id, renaming.name);
+    if (!next) {
+      setMessage(`There's already a course called ${renaming.name.trim() || "that"}.`);
+      return;
+    }
+    update(next);
+    setRenaming(null);
+    setMessage("");
+  };
+
+  const importFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setMessage(`Couldn't read ${file.name}.`);
+      return;
+    }
+    const imported = parseCourseFile(text);
+    if (!imported) {
+      setMessage(`Couldn't find any courses in ${file.name}.`);
+      return;
+    }
+    update(imported.reduce(upsertCourse, courses));
+    setMessage(`Imported ${imported.length} course${imported.length === 1 ? "" : "s"} from ${file.name}`);
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div>
+        <Label>Save Course</Label>
+        <div className="flex gap-2 mt-1">
+          <input
+            type="text"
+            value={courseName}
+            onChange={(e) => setCourseName(e.target.value)}
+            placeholder="Course Name"
+            className="flex-1 rounded-md border px-3 py-2"
+          />
+          <input
+            type="text"
+            value={teeName}
+            onChange={(e) => setTeeName(e.target.value)}
+            placeholder="Tee (e.g. White)"
+            className="w-32 rounded-md border px-3 py-2"
+          />
+          <button onClick={saveCourse} className="rounded-lg bg-indigo-600 text-white px-3 py-2">
+            Save
+          </button>
+        </div>
+      </div>
+
+      {message && <p role="status" className="text-sm text-gray-600">{message}</p>}
+
+      {courses.length > 0 && (
+        <div>
+          <Label>Load Course</Label>
+          <div className="space-y-2">
+            {courses.map((c) => (
+              <div key={c.id} className="rounded border px-3 py-2">
+                <div className="flex items-center gap-2">
+                  {renaming?.id === c.id ? (
+                    <input
+                      type="text"
+                      value={renaming.name}
+                      aria-label={`Rename ${c.name}`}
+                      onChange={(e) => setRenaming({ id: c.id, name: e.target.value })}
+                      onKeyDown={(e) => e.key === "Enter" && finishRename()}
+                      className="flex-1 rounded-md border px-2 py-1"
+                    />
+                  ) : (
+                    <span className="flex-1 font-medium">{c.name}</span>
+                  )}
+                  {renaming?.id === c.id ? (
+                    <button onClick={finishRename} className="text-xs text-indigo-600 underline">
+                      Done
+                    </button>
+                  ) : (
+                    <button onClick={() => setRenaming({ id: c.id, name: c.name })} className="text-xs text-indigo-600 underline">
+                      Rename
+                    </button>
+                  )}
+                  <button
+                    onClick={() => window.confirm(`Delete ${c.name} from your courses?`) && update(removeCourse(courses, c.id))}
+                    className="text-xs text-red-600 underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {c.tees.map((t) => (
+                    <span key={t.name} className="inline-flex items-center rounded border">
+                      <button onClick={() => load(c, t)} className="px-2 py-1 text-sm hover:bg-gray-100">
+                        {t.name} · {t.holes.length}
+                      </button>
+                      <button
+                        onClick={() => update(removeTee(courses, c.id, t.name))}
+                        aria-label={`Remove ${c.name} ${t.name} tee`}
+                        className="px-1 text-xs text-gray-500"
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <button
+          onClick={() => downloadFile("courses.json", coursesToJson(courses), "application/json")}
+          disabled={courses.length === 0}
+          className="rounded-lg border px-3 py-1 disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => downloadFile("courses.csv", coursesToCsv(courses), "text/csv")}
+          disabled={courses.length === 0}
+          className="rounded-lg border px-3 py-1 disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+        <label className="cursor-pointer rounded-lg border px-3 py-1">
+          Import…
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef } from "react";
+import { HoleState } from "./match";
+import { HoleBadge } from "./validation";
+
+// ---------- Hole Status ----------
+export const BADGE_TEXT: Record<HoleBadge, string> = {
+  complete: "complete",
+  incomplete: "incomplete",
+  "no-contest": "no contest",
+};
+
+export const BADGE_TONE: Record<HoleBadge, string> = {
+  complete: "bg-green-100 text-green-700",
+  incomplete: "bg-gray-100 text-gray-600",
+  "no-contest": "bg-amber-100 text-amber-700",
+};
+
+export function HoleStatusBadge({ badge }: { badge: HoleBadge }) {
+  return <span className={`rounded px-1.5 py-0.5 align-middle text-xs font-normal ${BADGE_TONE[badge]}`}>{BADGE_TEXT[badge]}</span>;
+}
+
+// ---------- Hole Strip ----------
+// Every hole at a glance: number, par and status; tap to jump there
+export function HoleStrip({
+  holes,
+  badges,
+  current,
+  onJump,
+}: {
+  holes: HoleState[];
+  badges: HoleBadge[];
+  current: number;
+  onJump: (hi: number) => void;
+}) {
+  const currentRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => currentRef.current?.scrollIntoView?.({ block: "nearest", inline: "center" }), [current]);
+
+  return (
+    <nav aria-label="Holes" className="mb-3 flex gap-1 overflow-x-auto pb-1">
+      {holes.map((h, hi) => (
+        <button
+          key={hi}
+          ref={hi === current ? currentRef : undefined}
+          onClick={() => onJump(hi)}
+          aria-label={`Hole ${hi + 1}, par ${h.par === "" ? "blank" : h.par}: ${BADGE_TEXT[badges[hi]]}`}
+          aria-current={hi === current ? "step" : undefined}
+          className={
+            `flex w-9 shrink-0 flex-col items-center rounded border py-0.5 text-xs ${BADGE_TONE[badges[hi]]} ` +
+            (hi === current ? "ring-2 ring-indigo-500" : "")
+          }
+        >
+          <span className="font-semibold">{hi + 1}</span>
+          <span className="text-[10px]">p{h.par === "" ? "–" : h.par}</span>
+        </button>
+      ))}
+    </nav>
+  );
+}
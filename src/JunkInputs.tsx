@@ -0,0 +1,122 @@
+import React from "react";
+import { HoleState, JunkBet, Player } from "./match";
+import { dotProblem, dotsOf, JUNK_PRESETS, junkFor, newJunkBet, tapDot } from "./junk";
+import { Label, NumberField } from "./ui";
+
+const FLAGS: { key: "penalty" | "par3Only" | "needsPar" | "onePerHole"; label: string }[] = [
+  { key: "needsPar", label: "must make par" },
+  { key: "par3Only", label: "par 3s only" },
+  { key: "onePerHole", label: "one per hole" },
+  { key: "penalty", label: "pays out" },
+];
+
+// ---------- Junk Settings ----------
+// The junk catalogue: start from a preset or a blank row, then edit in place.
+export function JunkSettings({ bets, onChange }: { bets: JunkBet[]; onChange: (bets: JunkBet[]) => void }) {
+  const update = (i: number, bet: JunkBet) => onChange(bets.map((b, j) => (j === i ? bet : b)));
+
+  return (
+    <div>
+      <Label>Junk</Label>
+      {bets.length === 0 && <p className="text-xs text-gray-500">No junk. Add greenies, sandies and the like below.</p>}
+      <div className="mt-1 space-y-2">
+        {bets.map((bet, i) => (
+          <div key={bet.id} className="space-y-1 rounded border px-2 py-1 text-sm">
+            <div className="flex items-center gap-2">
+              <input
+                value={bet.name}
+                placeholder="Name"
+                aria-label={`Junk ${i + 1} name`}
+                onChange={(e) => update(i, { ...bet, name: e.target.value })}
+                className="flex-1 rounded-md border border-gray-300 px-2 py-1"
+              />
+              <span>$</span>
+              <div className="w-20">
+                <NumberField
+                  value={bet.value}
+                  min={0}
+                  label={`${bet.name || `Junk ${i + 1}`} per dot`}
+                  onChange={(v) => update(i, { ...bet, value: v === "" ? 0 : v })}
+                />
+              </div>
+              <button
+                onClick={() => onChange(bets.filter((_, j) => j !== i))}
+                aria-label={`Remove ${bet.name || `junk ${i + 1}`}`}
+                className="px-1 text-xs text-gray-500"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-3 text-xs">
+              {FLAGS.map((f) => (
+                <label key={f.key} className="flex items-center gap-1">
+                  <input type="checkbox" checked={bet[f.key]} onChange={(e) => update(i, { ...bet, [f.key]: e.target.checked })} />
+                  {f.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {JUNK_PRESETS.filter((p) => !bets.some((b) => b.id === p.id)).map((p) => (
+          <button key={p.id} onClick={() => onChange([...bets, p])} className="rounded-lg border px-2 py-1 text-xs">
+            + {p.name}
+          </button>
+        ))}
+        <button onClick={() => onChange([...bets, newJunkBet()])} className="rounded-lg border px-2 py-1 text-xs">
+          + Custom
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ---------- Junk Dots ----------
+// One chip per bet open on this hole; each tap adds a dot. Dots that won't
+// pay as things stand are shown struck through with the reason.
+export function JunkDots({
+  hole,
+  bets,
+  player,
+  onUpdate,
+}: {
+  hole: HoleState;
+  bets: JunkBet[];
+  player: Player;
+  onUpdate: (h: HoleState) => void;
+}) {
+  const open = junkFor(hole, bets);
+  if (open.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {open.map((bet) => {
+        const dots = dotsOf(hole, bet.id, player.id);
+        const problem = dots > 0 ? dotProblem(hole, bet, player.id) : null;
+        const name = bet.name.trim() || "Junk";
+        return (
+          <button
+            key={bet.id}
+            onClick={() => onUpdate(tapDot(hole, bet, player.id))}
+            aria-label={`${player.name} ${name}: ${dots} ${dots === 1 ? "dot" : "dots"}`}
+            title={problem ?? undefined}
+            className={
+              "rounded-full border px-2 py-0.5 text-xs " +
+              (dots === 0
+                ? "text-gray-500"
+                : problem
+                ? "border-amber-400 text-amber-700 line-through"
+                : bet.penalty
+                ? "border-red-400 bg-red-50 text-red-700"
+                : "border-green-500 bg-green-50 text-green-700")
+            }
+          >
+            {name}
+            {dots > 0 && ` ${"●".repeat(dots)}`}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import React from "react";
+import { Player } from "./match";
+import { displayName, newProfile, profileOf, Profile } from "./roster";
+import { NumberField } from "./ui";
+
+// ---------- Regulars ----------
+// One tap puts a regular in the match, with their usual handicap
+export function RegularsPicker({
+  roster,
+  players,
+  full,
+  onPick,
+}: {
+  roster: Profile[];
+  players: Player[];
+  full: boolean;                    // no room for another player
+  onPick: (p: Profile) => void;
+}) {
+  const playing = new Set(players.map((pl) => profileOf(pl, roster)?.id));
+  const free = roster.filter((p) => !playing.has(p.id));
+  if (free.length === 0) return null;
+
+  return (
+    <div className="mb-2 flex flex-wrap gap-2">
+      {free.map((p) => (
+        <button
+          key={p.id}
+          onClick={() => onPick(p)}
+          disabled={full}
+          className="rounded-full border px-3 py-1 text-xs disabled:opacity-50"
+        >
+          + {displayName(p)}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ---------- Roster Editor ----------
+// Profiles are also added by finishing a round with someone new in it
+export function RosterEditor({
+  roster,
+  onChange,
+  onSavePlayers,
+}: {
+  roster: Profile[];
+  onChange: (roster: Profile[]) => void;
+  onSavePlayers: () => void;        // add this match's players to the roster
+}) {
+  const update = (i: number, p: Profile) => onChange(roster.map((x, j) => (j === i ? p : x)));
+
+  return (
+    <details className="rounded-md border px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">Roster ({roster.length})</summary>
+      {roster.length === 0 && <p className="mt-1 text-xs text-gray-500">No regulars yet.</p>}
+      <div className="mt-2 space-y-2">
+        {roster.map((p, i) => (
+          <div key={p.id} className="space-y-1 rounded border px-2 py-1">
+            <div className="flex items-center gap-2">
+              <input
+                value={p.name}
+                placeholder="Name"
+                aria-label={`Regular ${i + 1} name`}
+                onChange={(e) => update(i, { ...p, name: e.target.value })}
+                className="flex-1 rounded-md border border-gray-300 px-2 py-1"
+              />
+              <input
+                value={p.nickname}
+                placeholder="Nickname"
+                aria-label={`${p.name || `Regular ${i + 1}`} nickname`}
+                onChange={(e) => update(i, { ...p, nickname: e.target.value })}
+                className="w-28 rounded-md border border-gray-300 px-2 py-1"
+              />
+              <button
+                onClick={() => onChange(roster.filter((_, j) => j !== i))}
+                aria-label={`Remove ${p.name || `regular ${i + 1}`} from roster`}
+                className="px-1 text-xs text-gray-500"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-20">
+                <NumberField
+                  value={p.handicap}
+                  min={0}
+                  label={`${p.name || `Regular ${i + 1}`} default handicap`}
+                  onChange={(v) => update(i, { ...p, handicap: v })}
+                />
+              </div>
+              <input
+                value={p.payHandle}
+                placeholder="Venmo / Cash App"
+                aria-label={`${p.name || `Regular ${i + 1}`} payment handle`}
+                onChange={(e) => update(i, { ...p, payHandle: e.target.value })}
+                className="flex-1 rounded-md border border-gray-300 px-2 py-1"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button onClick={() => onChange([...roster, newProfile()])} className="rounded-lg border px-2 py-1 text-xs">
+          + New Regular
+        </button>
+        <button onClick={onSavePlayers} className="rounded-lg border px-2 py-1 text-xs">
+          ⭐ Save This Group
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from "react";
+import { activePlayers } from "./match";
+import { ArchivedRound, RoundStore, seasonOf, seasons, seasonStandings } from "./history";
+import { formatCents } from "./money";
+import { Profile } from "./roster";
+import { StatsDashboard } from "./StatsDashboard";
+import { Select } from "./ui";
+
+// ---------- Round History ----------
+export function RoundHistory({
+  store,
+  roster,
+  onOpen,
+  onBack,
+}: {
+  store: RoundStore;
+  roster: Profile[];                // standings follow each regular, however their name was typed
+  onOpen: (round: ArchivedRound) => void;
+  onBack: () => void;
+}) {
+  const [rounds, setRounds] = useState<ArchivedRound[] | null>(null);
+  const [season, setSeason] = useState<number | null>(null);
+  const [view, setView] = useState<"standings" | "stats">("standings");
+  const [error, setError] = useState("");
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);    // bumped to load again after a failure
+
+  useEffect(() => {
+    let live = true;
+    store.list().then(
+      (r) => live && setRounds(r),
+      () => live && setLoadFailed(true)
+    );
+    return () => {
+      live = false;
+    };
+  }, [store, attempt]);
+
+  const retry = () => {
+    setLoadFailed(false);
+    setAttempt((n) => n + 1);
+  };
+
+  const years = rounds ? seasons(rounds) : [];
+  const shown = season ?? years[0];
+  const inSeason = (rounds ?? []).filter((r) => seasonOf(r) === shown);
+  const standings = seasonStandings(inSeason, undefined, roster);
+
+  const remove = async (r: ArchivedRound) => {
+    if (!window.confirm("Delete this round from history?")) return;
+    try {
+      await store.remove(r.id);
+    } catch {
+      setError("Couldn't delete that round. Try again.");
+      return;
+    }
+    setError("");
+    setRounds((list) => (list ?? []).filter((x) => x.id !== r.id));
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border bg-white p-4 shadow">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">History</h2>
+        {years.length > 1 && (
+          <Select
+            value={String(shown)}
+            label="Season"
+            onChange={(v) => setSeason(Number(v))}
+            options={years.map((y) => ({ label: String(y), value: String(y) }))}
+          />
+        )}
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      {loadFailed ? (
+        <div role="alert" className="text-sm text-red-600">
+          Couldn't load your rounds. They haven't been deleted.{" "}
+          <button onClick={retry} className="text-indigo-600 underline">
+            Try again
+          </button>
+        </div>
+      ) : rounds === null ? (
+        <p className="text-sm text-gray-500">Loading…</p>
+      ) : rounds.length === 0 ? (
+        <p className="text-sm text-gray-700">No finished rounds yet. Finish a round from the Ledger to keep it here.</p>
+      ) : (
+        <>
+          <div className="flex gap-2 text-sm">
+            {(["standings", "stats"] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                aria-pressed={view === v}
+                className={"rounded-lg border px-3 py-1 " + (view === v ? "bg-indigo-600 text-white" : "bg-white")}
+              >
+                {v === "standings" ? "Standings" : "📊 Stats"}
+              </button>
+            ))}
+          </div>
+
+          {view === "stats" ? (
+            <StatsDashboard rounds={inSeason} roster={roster} />
+          ) : (
+            <div>
+              <h3 className="font-medium">{shown} Standings</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th>Player</th>
+                    <th className="text-right">Rounds</th>
+                    <th className="text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {standings.map((s, k) => (
+                    <tr key={k}>
+                      <td>{s.name}</td>
+                      <td className="text-right">{s.rounds}</td>
+                      <td className={"text-right " + (s.cents > 0 ? "text-green-600" : s.cents < 0 ? "text-red-600" : "")}>
+                        {formatCents(s.cents)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <ul className="space-y-2">
+            {inSeason.map((r) => (
+              <li key={r.id} className="flex items-center gap-2 rounded border px-3 py-2">
+                <button onClick={() => onOpen(r)} className="flex-1 text-left">
+                  <span className="font-medium">{r.match.courseName || "Round"}</span>{" "}
+                  <span className="text-sm text-gray-500">{new Date(r.finishedAt).toLocaleDateString()}</span>
+                  <span className="block text-xs text-gray-600">
+                    {activePlayers(r.match.players).map((p) => p.name).join(", ")} · {r.match.holes.length} holes
+                  </span>
+                </button>
+                <button onClick={() => remove(r)} className="text-xs text-red-600 underline">
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <button onClick={onBack} className="rounded-lg border px-4 py-2">
+        Back
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React from "react";
+import { activePlayers, HoleState, pickOf, Player, scoreOf, TeamPick } from "./match";
+import { formatCents } from "./money";
+import { BADGE_TEXT, BADGE_TONE } from "./HoleStatus";
+import { HoleBadge, scoreProblem } from "./validation";
+
+// Tapping a team chip cycles through the picks
+const NEXT_PICK: Record<TeamPick, TeamPick> = { T1: "T2", T2: "Sit", Sit: "T1" };
+const PICK_SHORT: Record<TeamPick, string> = { T1: "1", T2: "2", Sit: "–" };
+
+// ---------- Scorecard Grid ----------
+// Players × holes, for copying a paper card in after the round. Edits go
+// through the same per-hole updates as hole-by-hole entry, and each cell
+// shows what the hole is worth to that player as it stands.
+export function ScorecardGrid({
+  holes,
+  players,
+  usesTeamPicks,
+  deltas,
+  totals,
+  activeIds,
+  badges,
+  onUpdate,
+  onOpenHole,
+  onLedger,
+}: {
+  holes: HoleState[];
+  players: Player[];
+  usesTeamPicks: boolean;
+  deltas: number[][];               // cents, [hole][active player]
+  totals: number[];                 // cents, by active player
+  activeIds: string[];
+  badges: HoleBadge[];
+  onUpdate: (hi: number, hole: HoleState) => void;
+  onOpenHole: (hi: number) => void;
+  onLedger: () => void;
+}) {
+  const active = activePlayers(players);
+  const tone = (c: number) => (c > 0 ? "text-green-600" : c < 0 ? "text-red-600" : "text-gray-400");
+
+  return (
+    <div className="rounded-xl border bg-white p-4 shadow">
+      <h2 className="text-lg font-semibold mb-3">Scorecard</h2>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="sticky left-0 bg-white text-left">Hole</th>
+              {holes.map((_, hi) => (
+                <th key={hi} className="px-0.5">
+                  <button
+                    onClick={() => onOpenHole(hi)}
+                    aria-label={`Open hole ${hi + 1} (${BADGE_TEXT[badges[hi]]})`}
+                    className={`w-10 rounded ${BADGE_TONE[badges[hi]]}`}
+                  >
+                    {hi + 1}
+                  </button>
+                </th>
+              ))}
+              <th className="sticky right-0 bg-white px-1">Total</th>
+            </tr>
+            <tr className="text-gray-500">
+              <td className="sticky left-0 bg-white">Par</td>
+              {holes.map((h, hi) => (
+                <td key={hi} className="text-center">{h.par}</td>
+              ))}
+              <td className="sticky right-0 bg-white" />
+            </tr>
+          </thead>
+          <tbody>
+            {active.map((p) => {
+              const aj = activeIds.indexOf(p.id);
+              const strokes = holes.reduce((sum, h) => sum + (scoreOf(h, p.id) || 0), 0);
+              return (
+                <tr key={p.id} className="border-t">
+                  <td className="sticky left-0 bg-white pr-2 font-medium">{p.name}</td>
+                  {holes.map((h, hi) => {
+                    const score = scoreOf(h, p.id);
+                    const pick = pickOf(h, p.id);
+                    const bad = scoreProblem(score, h.par) !== null;
+                    const d = deltas[hi]?.[aj] ?? 0;
+                    return (
+                      <td key={hi} className="px-0.5 py-1 text-center align-top">
+                        {usesTeamPicks && (
+                          <button
+                            onClick={() => onUpdate(hi, { ...h, teamPicks: { ...h.teamPicks, [p.id]: NEXT_PICK[pick] } })}
+                            aria-label={`${p.name} hole ${hi + 1} team: ${pick}`}
+                            className={"mb-0.5 w-10 rounded border " + (pick === "Sit" ? "text-gray-400" : "font-semibold")}
+                          >
+                            {PICK_SHORT[pick]}
+                          </button>
+                        )}
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          pattern="[0-9]*"
+                          value={score}
+                          aria-label={`${p.name} hole ${hi + 1} score`}
+                          aria-invalid={bad || undefined}
+                          onChange={(e) => {
+                            const v = e.target.value;
+                            if (v !== "" && Number.isNaN(Number(v))) return;
+                            onUpdate(hi, { ...h, scores: { ...h.scores, [p.id]: v === "" ? "" : Number(v) } });
+                          }}
+                          className={
+                            "w-10 rounded border px-1 py-1 text-center text-sm " + (bad ? "border-red-500 bg-red-50" : "border-gray-300")
+                          }
+                        />
+                        <div className={tone(d)}>{d === 0 ? "·" : formatCents(d)}</div>
+                      </td>
+                    );
+                  })}
+                  <td className="sticky right-0 bg-white px-1 text-center align-top">
+                    <div className="py-1 text-sm">{strokes || ""}</div>
+                    <div className={tone(totals[aj] ?? 0)}>{formatCents(totals[aj] ?? 0)}</div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button onClick={onLedger} className="rounded-lg border px-4 py-2">
+          Ledger
+        </button>
+      </div>
+    </div>
+  );
+}
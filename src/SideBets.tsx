@@ -0,0 +1,181 @@
+import React from "react";
+import { activePlayers, Bet, FormatId, HoleState, pickOf, Player, Settings, TeamPick } from "./match";
+import { FORMATS, getFormat } from "./formats";
+import { betHoles, betName, betPlayers, newBet, withBetHole } from "./bets";
+import { Label, NumberField, Select, Toggle } from "./ui";
+
+// ---------- Side Bets ----------
+// Extra named bets over the same scores: each picks who's in, its own game,
+// wager and rules. The format's own settings panel edits the rest.
+export function SideBets({
+  bets,
+  players,
+  main,
+  onChange,
+}: {
+  bets: Bet[];
+  players: Player[];
+  main: Settings;                   // the main game's settings, which a new bet starts from
+  onChange: (bets: Bet[]) => void;
+}) {
+  const update = (i: number, bet: Bet) => onChange(bets.map((b, j) => (j === i ? bet : b)));
+  const active = activePlayers(players);
+
+  return (
+    <div>
+      <Label>Side Bets</Label>
+      {bets.length === 0 && <p className="text-xs text-gray-500">Just the main game. Add a bet for a separate game within the group.</p>}
+      <div className="mt-1 space-y-2">
+        {bets.map((bet, i) => {
+          const format = getFormat(bet.settings.format);
+          const name = betName(bet, i);
+          const toggle = (id: string, on: boolean) =>
+            update(i, {
+              ...bet,
+              // Roster order, so the ledger lists bet players the way it lists everyone
+              playerIds: players.map((p) => p.id).filter((pid) => (pid === id ? on : bet.playerIds.includes(pid))),
+            });
+          return (
+            <div key={bet.id} className="space-y-2 rounded border px-2 py-2 text-sm">
+              <div className="flex items-center gap-2">
+                <input
+                  value={bet.name}
+                  placeholder={`Bet ${i + 1}`}
+                  aria-label={`Bet ${i + 1} name`}
+                  onChange={(e) => update(i, { ...bet, name: e.target.value })}
+                  className="flex-1 rounded-md border border-gray-300 px-2 py-1"
+                />
+                <button
+                  onClick={() => onChange(bets.filter((_, j) => j !== i))}
+                  aria-label={`Remove ${name}`}
+                  className="px-1 text-xs text-gray-500"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-3 text-xs">
+                {active.map((p) => (
+                  <label key={p.id} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={bet.playerIds.includes(p.id)}
+                      onChange={(e) => toggle(p.id, e.target.checked)}
+                      aria-label={`${name}: ${p.name}`}
+                    />
+                    {p.name}
+                  </label>
+                ))}
+              </div>
+              {bet.playerIds.filter((id) => active.some((p) => p.id === id)).length < 2 && (
+                <p className="text-xs text-amber-700">Needs at least two players.</p>
+              )}
+              <div className="flex items-center justify-between">
+                <span>Game</span>
+                <Select
+                  value={bet.settings.format}
+                  label={`${name} game`}
+                  onChange={(v) => update(i, { ...bet, settings: { ...bet.settings, format: v as FormatId } })}
+                  options={FORMATS.map((f) => ({ label: f.name, value: f.id }))}
+                />
+              </div>
+              <div>
+                <Label>{format.wagerLabel}</Label>
+                <NumberField
+                  value={bet.settings.wager}
+                  step={0.5}
+                  min={0}
+                  label={`${name} wager`}
+                  onChange={(v) => update(i, { ...bet, settings: { ...bet.settings, wager: v === "" ? 0 : Number(v) } })}
+                />
+              </div>
+              <format.SettingsPanel settings={bet.settings} setSettings={(settings) => update(i, { ...bet, settings })} />
+              <div className="flex justify-between">
+                <span>Net Scoring</span>
+                <Toggle
+                  checked={bet.settings.netScoring}
+                  onChange={(v) => update(i, { ...bet, settings: { ...bet.settings, netScoring: v } })}
+                />
+              </div>
+              {bet.settings.netScoring && (
+                <div>
+                  <Label>Handicap Allowance (%)</Label>
+                  <NumberField
+                    value={bet.settings.handicapAllowance}
+                    min={0}
+                    label={`${name} handicap allowance`}
+                    onChange={(v) =>
+                      update(i, {
+                        ...bet,
+                        settings: { ...bet.settings, handicapAllowance: v === "" ? 0 : Math.min(100, Number(v)) },
+                      })
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <button onClick={() => onChange([...bets, newBet(players, main)])} className="mt-2 rounded-lg border px-3 py-1 text-sm">
+        + Add Bet
+      </button>
+    </div>
+  );
+}
+
+// ---------- Bet Hole Inputs ----------
+// Each bet's own per-hole inputs on the hole being entered: its sides for a
+// team game and whatever its format asks for (wolf partner, presses)
+export function BetHoleInputs({
+  holeIndex,
+  hole,
+  bets,
+  players,
+  onUpdate,
+}: {
+  holeIndex: number;
+  hole: HoleState;
+  bets: Bet[];
+  players: Player[];
+  onUpdate: (h: HoleState) => void;
+}) {
+  return (
+    <>
+      {bets.map((bet, i) => {
+        const format = getFormat(bet.settings.format);
+        if (!format.usesTeamPicks && !format.HoleInputs) return null;
+        const name = betName(bet, i);
+        const [view] = betHoles([hole], bet.id);
+        const inBet = betPlayers(players, bet);
+        const update = (next: HoleState) => onUpdate(withBetHole(hole, bet.id, next));
+        return (
+          <div key={bet.id} className="mb-4 rounded border px-3 py-2">
+            <p className="mb-1 text-sm font-medium">{name}</p>
+            {format.usesTeamPicks && (
+              <div className="mb-2 flex flex-wrap gap-3">
+                {activePlayers(inBet).map((p) => (
+                  <span key={p.id} className="flex items-center gap-1 text-sm">
+                    {p.name}
+                    <Select
+                      value={pickOf(view, p.id)}
+                      label={`${name} ${p.name} team`}
+                      onChange={(val) => update({ ...view, teamPicks: { ...view.teamPicks, [p.id]: val as TeamPick } })}
+                      options={[
+                        { label: "T1", value: "T1" },
+                        { label: "T2", value: "T2" },
+                        { label: "Sit", value: "Sit" },
+                      ]}
+                    />
+                  </span>
+                ))}
+              </div>
+            )}
+            {format.HoleInputs && (
+              <format.HoleInputs holeIndex={holeIndex} hole={view} players={inBet} settings={bet.settings} onUpdate={update} />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
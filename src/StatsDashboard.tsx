@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { ArchivedRound } from "./history";
+import { formatCents } from "./money";
+import { Profile } from "./roster";
+import { formatToPar, PAR_TYPES, parAverage, playerStats, roundLines, SCORE_BUCKETS } from "./stats";
+import { Select } from "./ui";
+
+// ---------- Charts ----------
+// Plain bars, no chart library: each row's bar is its share of the largest
+// value; negative values draw red
+function Bars({ title, rows }: { title: string; rows: { label: string; value: number; text: string }[] }) {
+  const max = Math.max(0, ...rows.map((r) => Math.abs(r.value)));
+  return (
+    <div>
+      <h4 className="text-sm font-medium">{title}</h4>
+      <ul aria-label={title} className="mt-1 space-y-1">
+        {rows.map((r) => (
+          <li key={r.label} className="flex items-center gap-2 text-xs">
+            <span className="w-28 text-gray-600">{r.label}</span>
+            <span className="h-3 flex-1 rounded bg-gray-100">
+              <span
+                className={"block h-3 rounded " + (r.value < 0 ? "bg-red-400" : "bg-green-600")}
+                style={{ width: max > 0 ? `${(Math.abs(r.value) / max) * 100}%` : 0 }}
+              />
+            </span>
+            <span className="w-14 text-right">{r.text}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Score to par round by round, oldest first; the dashed line is even par
+function TrendLine({ values }: { values: number[] }) {
+  const w = 300;
+  const h = 80;
+  const pad = 6;
+  const lo = Math.min(0, ...values);
+  const hi = Math.max(0, ...values);
+  const x = (i: number) => (values.length > 1 ? pad + (i * (w - 2 * pad)) / (values.length - 1) : w / 2);
+  const y = (v: number) => (hi === lo ? h / 2 : pad + ((hi - v) * (h - 2 * pad)) / (hi - lo));
+  return (
+    <svg
+      viewBox={`0 0 ${w} ${h}`}
+      role="img"
+      aria-label={`To par by round: ${values.map(formatToPar).join(", ")}`}
+      className="h-20 w-full"
+    >
+      <line x1={0} x2={w} y1={y(0)} y2={y(0)} stroke="#9ca3af" strokeDasharray="4 3" />
+      <polyline fill="none" stroke="#166534" strokeWidth={2} points={values.map((v, i) => `${x(i)},${y(v)}`).join(" ")} />
+      {values.map((v, i) => (
+        <circle key={i} cx={x(i)} cy={y(v)} r={3} fill="#166534" />
+      ))}
+    </svg>
+  );
+}
+
+// ---------- Stats Dashboard ----------
+// Everything here is read from the finished rounds' scores; money is each
+// round's hole-by-hole money (see roundDeltas)
+export function StatsDashboard({ rounds, roster }: { rounds: ArchivedRound[]; roster: Profile[] }) {
+  const stats = playerStats(rounds, roster);
+  const [picked, setPicked] = useState<string | null>(null);
+  const player = stats.find((s) => s.key === picked) ?? stats[0];
+
+  if (!player) return <p className="text-sm text-gray-700">No scores to show yet.</p>;
+
+  // Oldest first, so the trend reads left to right
+  const lines = [...rounds]
+    .reverse()
+    .flatMap((r) => roundLines(r, roster))
+    .filter((l) => l.key === player.key);
+  const pct = (n: number, of: number) => (of > 0 ? `${Math.round((n / of) * 100)}%` : "–");
+
+  return (
+    <div className="space-y-4">
+      <table aria-label="Players" className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th>Player</th>
+            <th className="text-right">Rounds</th>
+            <th className="text-right">Holes</th>
+            <th className="text-right">Gross</th>
+            <th className="text-right">To par</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map((s) => (
+            <tr key={s.key}>
+              <td>{s.name}</td>
+              <td className="text-right">{s.rounds}</td>
+              <td className="text-right">{s.holes}</td>
+              <td className="text-right">{s.gross}</td>
+              <td className="text-right">{formatToPar(s.toPar)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">{player.name}</h3>
+        {stats.length > 1 && (
+          <Select
+            value={player.key}
+            label="Stats for"
+            onChange={setPicked}
+            options={stats.map((s) => ({ label: s.name, value: s.key }))}
+          />
+        )}
+      </div>
+
+      {lines.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium">Rounds</h4>
+          {lines.length > 1 && <TrendLine values={lines.map((l) => l.toPar)} />}
+          <table aria-label={`${player.name} rounds`} className="w-full text-xs">
+            <tbody>
+              {lines.map((l) => (
+                <tr key={l.roundId}>
+                  <td>{new Date(l.finishedAt).toLocaleDateString()}</td>
+                  <td>{l.course || "Round"}</td>
+                  <td className="text-right">
+                    {l.gross} <span className="text-gray-500">({l.holes} holes)</span>
+                  </td>
+                  <td className="text-right">{formatToPar(l.toPar)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Bars
+        title="Scores"
+        rows={SCORE_BUCKETS.map((b) => ({
+          label: b.label,
+          value: player.buckets[b.id],
+          text: `${player.buckets[b.id]} · ${pct(player.buckets[b.id], player.holes)}`,
+        }))}
+      />
+
+      <Bars
+        title="Scoring average"
+        rows={PAR_TYPES.map((par) => {
+          const avg = parAverage(player.byPar[par]);
+          return { label: `Par ${par}s`, value: avg ?? 0, text: avg === null ? "–" : avg.toFixed(2) };
+        })}
+      />
+
+      {player.teamHoles > 0 && (
+        <p className="text-sm">
+          Carried the team on <span className="font-medium">{player.carried}</span> of {player.teamHoles} team holes (
+          {pct(player.carried, player.teamHoles)})
+        </p>
+      )}
+
+      <div>
+        <Bars
+          title="Money by hole"
+          rows={PAR_TYPES.map((par) => ({ label: `Par ${par}s`, value: player.moneyByPar[par], text: formatCents(player.moneyByPar[par]) }))}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Main game, junk and side bets. Presses aren't included, and Nassau money counts on the hole that closed each match.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React from "react";
+import { describeSideStatus, HoleWorth, SideStatus, totalsThrough } from "./matchStatus";
+import { formatCents, formatDollars } from "./money";
+import { PressResult } from "./scoring";
+
+// ---------- Status Panel ----------
+// Where everyone stands without leaving the hole: money through this hole
+// (the hole itself as currently entered), what it's worth, and the match.
+export function StatusPanel({
+  names,
+  holeIndex,
+  deltas,
+  worth,
+  sides,
+  sideNames,
+  presses,
+}: {
+  names: string[];                  // active players
+  holeIndex: number;
+  deltas: number[][];               // cents, [hole][active player], junk included
+  worth: HoleWorth | null;          // formats without a per-hole stake leave it out
+  sides: SideStatus | null;         // team formats only
+  sideNames: { t1: string; t2: string };  // who is on each side this hole
+  presses: PressResult[];
+}) {
+  const through = totalsThrough(deltas, holeIndex);
+  const now = deltas[holeIndex] ?? [];
+  const tone = (c: number) => (c > 0 ? "text-green-600" : c < 0 ? "text-red-600" : "text-gray-500");
+  const open = presses.filter((p) => !p.settled && p.start <= holeIndex);
+
+  return (
+    <details open className="mb-3 rounded-xl border bg-white px-4 py-2 shadow">
+      <summary className="cursor-pointer font-medium">Match Status</summary>
+      <table aria-label="Running totals" className="mt-2 w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="font-normal">Player</th>
+            <th className="text-right font-normal">H{holeIndex + 1} as it stands</th>
+            <th className="text-right font-normal">Thru {holeIndex + 1}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {names.map((name, aj) => (
+            <tr key={aj}>
+              <td>{name}</td>
+              <td className={"text-right " + tone(now[aj] ?? 0)}>{now[aj] ? formatCents(now[aj]) : "–"}</td>
+              <td className={"text-right font-medium " + tone(through[aj] ?? 0)}>{formatCents(through[aj] ?? 0)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {worth && (
+        <p className="mt-2 text-sm">
+          H{holeIndex + 1} is worth {formatDollars(worth.base)} a unit
+          {worth.carried > 0 && <span className="text-amber-700"> ({formatDollars(worth.carried)} carried in)</span>}
+          {worth.upside.length > 0 && (
+            <span className="block text-xs text-gray-600">
+              {worth.upside.map((u) => `${u.label}: ${formatDollars(u.cents)}`).join(" · ")}
+            </span>
+          )}
+        </p>
+      )}
+
+      {sides && (
+        <p className="mt-2 text-sm">
+          <span className="font-medium">{describeSideStatus(sides)}</span>
+          <span className="text-gray-600"> thru {sides.through}</span>
+          {(sideNames.t1 || sideNames.t2) && (
+            <span className="block text-xs text-gray-600">
+              T1: {sideNames.t1 || "–"} · T2: {sideNames.t2 || "–"}
+            </span>
+          )}
+        </p>
+      )}
+
+      {open.length > 0 && (
+        <ul className="mt-1 text-xs text-gray-600">
+          {open.map((p, k) => (
+            <li key={k}>
+              {p.label}: {p.summary}
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import { newRoomCode } from "./sync";
+import { Label } from "./ui";
+
+const SERVER_KEY = "syncServer";
+
+// ---------- Live Scoring ----------
+// Without a relay server, rooms only reach other tabs of this browser.
+export function SyncPanel({
+  room,
+  error,
+  onHost,
+  onJoin,
+  onLeave,
+}: {
+  room: string | null;
+  error: string | null;             // why the last host or join didn't connect
+  onHost: (room: string, server: string) => void;
+  onJoin: (room: string, server: string) => void;
+  onLeave: () => void;
+}) {
+  const [code, setCode] = useState("");
+  const [server, setServer] = useState(() => localStorage.getItem(SERVER_KEY) ?? "");
+
+  const withServer = (go: (room: string, server: string) => void, roomCode: string) => {
+    localStorage.setItem(SERVER_KEY, server.trim());
+    go(roomCode, server.trim());
+  };
+
+  if (room) {
+    return (
+      <div className="flex items-center justify-between rounded-md bg-green-50 px-3 py-2 text-sm">
+        <span>
+          📡 Live in room <span className="font-mono font-semibold">{room}</span>
+        </span>
+        <button onClick={onLeave} className="text-xs text-red-600 underline">
+          Leave
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium mt-4">Live Scoring</h3>
+      <div>
+        <Label>Relay server (optional)</Label>
+        <input
+          type="text"
+          value={server}
+          onChange={(e) => setServer(e.target.value)}
+          placeholder="wss://… (blank = this browser only)"
+          className="mt-1 w-full rounded-md border px-3 py-2"
+        />
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => withServer(onHost, newRoomCode())} className="rounded-lg border px-3 py-2">
+          Host
+        </button>
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Room code"
+          aria-label="Room code"
+          className="w-28 flex-1 rounded-md border px-3 py-2 font-mono"
+        />
+        <button
+          onClick={() => withServer(onJoin, code.trim())}
+          disabled={!code.trim()}
+          className="rounded-lg border px-3 py-2 disabled:opacity-50"
+        >
+          Join
+        </button>
+      </div>
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import { activePlayers, HoleState, Player } from "./match";
+import { applySchedule, buildSchedule, describeSplit, TeamMode, TeamSegment } from "./teams";
+import { Label, NumberField, Select } from "./ui";
+
+// ---------- Team Builder ----------
+// Generate teams, check the preview, then lock them into the chosen holes.
+// Applying overwrites the team picks on those holes only.
+export function TeamBuilder({
+  players,
+  holes,
+  onApply,
+}: {
+  players: Player[];
+  holes: HoleState[];
+  onApply: (holes: HoleState[]) => void;
+}) {
+  const [mode, setMode] = useState<TeamMode>("random");
+  const [from, setFrom] = useState<number | "">(1);
+  const [to, setTo] = useState<number | "">(holes.length);
+  const [preview, setPreview] = useState<TeamSegment[]>([]);
+  const [message, setMessage] = useState("");
+  const active = activePlayers(players);
+  useEffect(() => setTo(holes.length), [holes.length]);
+
+  const range = () => {
+    const first = Math.max(1, Math.min(holes.length, from === "" ? 1 : from));
+    const last = Math.max(first, Math.min(holes.length, to === "" ? holes.length : to));
+    return [first - 1, last - 1];
+  };
+
+  const generate = () => {
+    const [start, end] = range();
+    setPreview(buildSchedule(mode, active, start, end));
+    setMessage("");
+  };
+
+  const apply = () => {
+    onApply(applySchedule(holes, preview));
+    setMessage(`Teams set on holes ${preview[0].from + 1}–${preview[preview.length - 1].to + 1}`);
+    setPreview([]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label>Teams</Label>
+          <div>
+            <Select
+              value={mode}
+              label="Team mode"
+              onChange={(v) => {
+                setMode(v as TeamMode);
+                setPreview([]);
+              }}
+              options={[
+                { label: "Balanced random", value: "random" },
+                { label: "Rotate partners", value: "rotation" },
+                { label: "Even handicaps", value: "handicap" },
+              ]}
+            />
+          </div>
+        </div>
+        <div className="w-16">
+          <NumberField value={from} min={1} label="Teams from hole" onChange={setFrom} />
+        </div>
+        <span className="pb-3">to</span>
+        <div className="w-16">
+          <NumberField value={to} min={1} label="Teams to hole" onChange={setTo} />
+        </div>
+        <button
+          onClick={() => {
+            setFrom(1);
+            setTo(holes.length);
+          }}
+          className="pb-3 text-xs text-indigo-600 underline"
+        >
+          Whole round
+        </button>
+      </div>
+      <button
+        onClick={generate}
+        disabled={active.length < 2}
+        className="rounded-lg bg-green-600 text-white px-3 py-1 text-sm disabled:opacity-50"
+      >
+        🎲 Generate Teams
+      </button>
+
+      {preview.length > 0 && (
+        <div className="rounded border px-3 py-2 text-sm">
+          <ul className="space-y-1">
+            {preview.map((seg) => (
+              <li key={seg.from}>
+                <span className="font-medium">
+                  H{seg.from + 1}
+                  {seg.to > seg.from && `–${seg.to + 1}`}:
+                </span>{" "}
+                {describeSplit(seg.split, active)}
+              </li>
+            ))}
+          </ul>
+          <button onClick={apply} className="mt-2 rounded-lg bg-indigo-600 text-white px-3 py-1">
+            Lock In
+          </button>
+        </div>
+      )}
+      {message && <p role="status" className="text-sm text-gray-600">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import React, { useSyncExternalStore } from "react";
+import { UpdateStore } from "./pwa";
+
+// ---------- Update Prompt ----------
+// Switching builds reloads the page, so it waits for a tap rather than
+// interrupting score entry. The match itself is saved and survives the reload.
+export function UpdatePrompt({ store }: { store: UpdateStore }) {
+  const status = useSyncExternalStore(store.subscribe, store.status);
+  if (status === "none") return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 bottom-0 z-20 mx-auto mb-4 flex max-w-xl items-center justify-between gap-3 rounded-xl border bg-white px-4 py-3 text-sm shadow-lg"
+    >
+      <span>{status === "available" ? "A new version is ready." : "Ready to use offline."}</span>
+      <div className="flex gap-3">
+        {status === "available" && (
+          <button onClick={store.apply} className="rounded-lg bg-indigo-600 px-3 py-1 text-white">
+            Reload
+          </button>
+        )}
+        <button onClick={store.dismiss} className="text-gray-600 underline">
+          {status === "available" ? "Later" : "OK"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Bet, DEFAULT_SETTINGS, HoleState, newHole, Player, Settings } from "./match";
+import { betColumns, betHoles, betKey, betPlayers, computeBets, netDeltas, netTotals, newBet, withBetHole } from "./bets";
+import { LONE_WOLF } from "./formats/wolf";
+import { findUnbalancedHoles } from "./scoring";
+
+const PLAYERS: Player[] = ["A", "B", "C", "D"].map((name, i) => ({ id: `p${i + 1}`, name, handicap: "" }));
+const IDS = PLAYERS.map((p) => p.id);
+
+// Scores by roster slot; "" = no score
+function hole(...scores: (number | "")[]): HoleState {
+  return { ...newHole(), scores: Object.fromEntries(scores.map((s, i) => [`p${i + 1}`, s])) };
+}
+
+function bet(id: string, playerIds: string[], over: Partial<Settings> = {}, name = ""): Bet {
+  return { id, name, playerIds, settings: { ...DEFAULT_SETTINGS, junkBets: [], ...over } };
+}
+
+test("a new bet starts with everyone playing and no junk", () => {
+  const b = newBet([...PLAYERS, { id: "p5", name: " ", handicap: "" }]);
+  expect(b.playerIds).toEqual(IDS);
+  expect(b.settings.junkBets).toEqual([]);
+});
+
+test("a new bet plays net or gross like the main game", () => {
+  const b = newBet(PLAYERS, { ...DEFAULT_SETTINGS, format: "nassau", netScoring: true, handicapAllowance: 80 });
+  expect(b.settings.format).toBe(DEFAULT_SETTINGS.format);
+  expect(b.settings.netScoring).toBe(true);
+  expect(b.settings.handicapAllowance).toBe(80);
+});
+
+test("a bet only scores its own players", () => {
+  const b = bet("b1", ["p3", "p1"], { format: "skins", wager: 2 });
+  expect(betPlayers(PLAYERS, b).map((p) => p.name)).toEqual(["A", "C"]);
+
+  const [result] = computeBets([b], [hole(5, 3, 4, 3)], PLAYERS);
+  expect(result.name).toBe("Bet 1");
+  expect(result.activeIds).toEqual(["p1", "p3"]);
+  expect(result.deltas).toEqual([[-200, 200]]);
+  expect(result.totals).toEqual([-200, 200]);
+});
+
+test("bets are computed independently over the same holes", () => {
+  const holes = [hole(4, 5, 4, 6), hole(4, 4, 3, 5)];
+  const results = computeBets(
+    [bet("skins", IDS, { format: "skins" }, "Skins"), bet("ac", ["p1", "p3"], { format: "skins", wager: 5, carryOver: false }, "A v C")],
+    holes,
+    PLAYERS
+  );
+  expect(results.map((r) => r.name)).toEqual(["Skins", "A v C"]);
+  // A and C tie the first (carried in the skins, pushed in A v C); C takes the second
+  expect(results[0].totals).toEqual([-200, -200, 600, -200]);
+  expect(results[0].carries).toEqual([0, 100]);
+  expect(results[1].totals).toEqual([-500, 500]);
+});
+
+test("bet money lines up with the main game's players and nets per player", () => {
+  const holes = [hole(4, 5, 4, 6), hole(4, 4, 3, 5)];
+  const results = computeBets([bet("ac", ["p1", "p3"], { format: "skins", wager: 5, carryOver: false })], holes, PLAYERS);
+  const columns = betColumns(IDS, results);
+  expect(columns).toEqual([{ betId: "ac", name: "Bet 1", amounts: [-500, 0, 500, 0] }]);
+  expect(netTotals([100, -100, 0, 0], columns)).toEqual([-400, -100, 500, 0]);
+
+  const deltas = netDeltas(IDS, [[0, 0, 0, 0], [100, -100, 0, 0]], results);
+  expect(deltas).toEqual([[0, 0, 0, 0], [-400, -100, 500, 0]]);
+  expect(findUnbalancedHoles(deltas)).toEqual([]);
+});
+
+test("a bet's per-hole inputs are kept apart from the main game's", () => {
+  const main: HoleState = { ...hole(4, 4, 4, 4), teamPicks: { p1: "T1", p2: "T2" }, extras: { wolfPartner: "p3" } };
+  const [view] = betHoles([main], "b1");
+  expect(view.teamPicks).toEqual({});
+  expect(view.extras).toEqual({});
+
+  const next = withBetHole(main, "b1", { ...view, teamPicks: { p1: "T2", p3: "T1", p4: "Sit" }, extras: { press: true } });
+  expect(next.teamPicks).toEqual(main.teamPicks);
+  expect(next.extras).toEqual({
+    wolfPartner: "p3",
+    [betKey("b1", "press")]: true,
+    [betKey("b1", "pick:p1")]: "T2",
+    [betKey("b1", "pick:p3")]: "T1",
+  });
+  expect(betHoles([next], "b1")[0]).toMatchObject({ teamPicks: { p1: "T2", p3: "T1" }, extras: { press: true } });
+  expect(betHoles([next], "b2")[0]).toMatchObject({ teamPicks: {}, extras: {} });
+});
+
+test("a wolf bet over some of the players rotates over them and uses its own partners", () => {
+  const holes = [
+    // Main game's wolf partners are set too; the bet must not read them
+    { ...hole(3, 4, 2, 5), extras: { wolfPartner: "p2", [betKey("w", "wolfPartner")]: LONE_WOLF } },
+    { ...hole(4, 4, 3, 3), extras: { wolfPartner: "p3", [betKey("w", "wolfPartner")]: "p4" } },
+  ];
+  const [result] = computeBets([bet("w", ["p1", "p2", "p4"], { format: "wolf", wager: 1 })], holes, PLAYERS);
+  expect(result.activeIds).toEqual(["p1", "p2", "p4"]);
+  // A is wolf on the first and goes alone (doubled); B is wolf on the second and takes D
+  expect(result.deltas).toEqual([
+    [400, -200, -200],
+    [-200, 100, 100],
+  ]);
+  expect(result.totals).toEqual([200, -100, -100]);
+});
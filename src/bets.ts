@@ -0,0 +1,141 @@
+import { activePlayers, Bet, DEFAULT_SETTINGS, HoleState, Player, Settings, TeamPick } from "./match";
+import { getFormat } from "./formats";
+import { carryPots, PressResult } from "./scoring";
+
+// ---------- Bets ----------
+// Starts with everyone in, playing net or gross the way the main game does
+export function newBet(players: Player[], main: Settings = DEFAULT_SETTINGS): Bet {
+  return {
+    id: "b" + Date.now().toString(36) + Math.random().toString(36).slice(2, 5),
+    name: "",
+    playerIds: activePlayers(players).map((p) => p.id),
+    settings: {
+      ...DEFAULT_SETTINGS,
+      netScoring: main.netScoring,
+      handicapAllowance: main.handicapAllowance,
+      multiplierBasis: main.multiplierBasis,
+      junkBets: [],
+    },
+  };
+}
+
+export function betName(bet: Bet, index: number): string {
+  return bet.name.trim() || `Bet ${index + 1}`;
+}
+
+// The bet's players, in roster order
+export function betPlayers(players: Player[], bet: Bet): Player[] {
+  return players.filter((p) => bet.playerIds.includes(p.id));
+}
+
+// ---------- Per-hole inputs ----------
+// A bet keeps its own per-hole inputs (its format's extras, and its sides
+// for team formats) in the hole's extras under "bet:<bet id>:", so they
+// sync, save and undo like the main game's and never mix with them. Sides
+// are "pick:<player id>", so removing a player drops them too.
+const BET = "bet";
+const PICK = "pick";
+
+export function betKey(betId: string, key: string): string {
+  return `${BET}:${betId}:${key}`;
+}
+
+// The holes as the bet sees them: the shared pars and scores, its own extras and sides
+export function betHoles(holes: HoleState[], betId: string): HoleState[] {
+  const prefix = betKey(betId, "");
+  return holes.map((h) => {
+    const extras: HoleState["extras"] = {};
+    const teamPicks: Record<string, TeamPick> = {};
+    for (const [k, v] of Object.entries(h.extras)) {
+      if (!k.startsWith(prefix)) continue;
+      const key = k.slice(prefix.length);
+      if (key.startsWith(`${PICK}:`)) {
+        if (v === "T1" || v === "T2") teamPicks[key.slice(PICK.length + 1)] = v;
+      } else {
+        extras[key] = v;
+      }
+    }
+    return { ...h, teamPicks, extras };
+  });
+}
+
+// Write the bet's view of a hole back onto the shared hole. Scores and par
+// entered through it are the shared ones.
+export function withBetHole(hole: HoleState, betId: string, view: HoleState): HoleState {
+  const prefix = betKey(betId, "");
+  const extras = Object.fromEntries(Object.entries(hole.extras).filter(([k]) => !k.startsWith(prefix)));
+  for (const [k, v] of Object.entries(view.extras)) extras[betKey(betId, k)] = v;
+  for (const [id, pick] of Object.entries(view.teamPicks)) {
+    if (pick !== "Sit") extras[betKey(betId, `${PICK}:${id}`)] = pick;
+  }
+  return { ...hole, par: view.par, scores: view.scores, extras };
+}
+
+// ---------- Results ----------
+// One bet scored on its own over the match's holes, indexed by the bet's
+// active players (`activeIds`), like a ScoringResult
+export type BetResult = {
+  id: string;
+  name: string;
+  activeIds: string[];
+  deltas: number[][];               // [hole][bet player], in cents
+  totals: number[];                 // [bet player], in cents
+  notes: string[];
+  presses: PressResult[];
+  carries: number[];                // cents riding on each hole from earlier ties
+};
+
+export function computeBets(bets: Bet[], holes: HoleState[], players: Player[]): BetResult[] {
+  return bets.map((bet, i) => {
+    const result = getFormat(bet.settings.format).compute({
+      holes: betHoles(holes, bet.id),
+      settings: bet.settings,
+      players: betPlayers(players, bet),
+    });
+    return {
+      id: bet.id,
+      name: betName(bet, i),
+      activeIds: result.activeIds,
+      deltas: result.deltas,
+      totals: result.totals,
+      notes: result.notes ?? [],
+      presses: result.presses ?? [],
+      carries: carryPots(result.explanations, bet.settings.wager),
+    };
+  });
+}
+
+// ---------- Combining ----------
+// A bet's amounts moved onto the main game's players; anyone not in the bet gets 0
+function align(activeIds: string[], betIds: string[], amounts: number[]): number[] {
+  return activeIds.map((id) => {
+    const k = betIds.indexOf(id);
+    return k < 0 ? 0 : amounts[k] ?? 0;
+  });
+}
+
+export type BetColumn = {
+  betId: string;
+  name: string;
+  amounts: number[];                // [active player], in cents
+};
+
+// Each bet's total per player, in the main game's player order
+export function betColumns(activeIds: string[], results: BetResult[]): BetColumn[] {
+  return results.map((r) => ({ betId: r.id, name: r.name, amounts: align(activeIds, r.activeIds, r.totals) }));
+}
+
+// What each player nets across everything: `totals` plus every bet
+export function netTotals(totals: number[], columns: BetColumn[]): number[] {
+  return totals.map((t, aj) => columns.reduce((sum, col) => sum + col.amounts[aj], t));
+}
+
+// Hole-by-hole money with every bet's holes added in
+export function netDeltas(activeIds: string[], deltas: number[][], results: BetResult[]): number[][] {
+  return deltas.map((row, hi) =>
+    results.reduce((acc, r) => {
+      const extra = align(activeIds, r.activeIds, r.deltas[hi] ?? []);
+      return acc.map((c, aj) => c + extra[aj]);
+    }, row)
+  );
+}
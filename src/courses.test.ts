@@ -0,0 +1,77 @@
+import { newHole } from "./match";
+import {
+  applyTee,
+  Course,
+  coursesToCsv,
+  coursesToJson,
+  loadCourses,
+  COURSES_STORAGE_KEY,
+  parseCourseFile,
+  removeTee,
+  renameCourse,
+  TeeSet,
+  teeFromHoles,
+  upsertCourse,
+} from "./courses";
+
+const tee = (name: string, pars: number[]): TeeSet => ({
+  name,
+  holes: pars.map((par, i) => ({ par, strokeIndex: i + 1, yardage: 300 + i })),
+});
+
+const pine: Course = { id: "c1", name: "Pine Valley", tees: [tee("White", [4, 3, 5]), tee("Red", [4, 3, 4])] };
+
+beforeEach(() => localStorage.clear());
+
+test("saving under an existing name replaces rather than duplicates", () => {
+  const edited = { id: "new", name: "pine valley ", tees: [tee("white", [5, 5, 5]), tee("Blue", [4, 4, 4])] };
+  const [only, ...rest] = upsertCourse([pine], edited);
+  expect(rest).toEqual([]);
+  expect(only.id).toBe("c1");
+  expect(only.tees.map((t) => [t.name, t.holes[0].par])).toEqual([["white", 5], ["Red", 4], ["Blue", 4]]);
+});
+
+test("renames in place unless the name is taken", () => {
+  const oak: Course = { id: "c2", name: "Oak", tees: [tee("White", [4])] };
+  expect(renameCourse([pine, oak], "c2", "Oak Hill")?.map((c) => c.name)).toEqual(["Pine Valley", "Oak Hill"]);
+  expect(renameCourse([pine, oak], "c2", "PINE VALLEY")).toBeNull();
+  expect(removeTee([oak], "c2", "white")).toEqual([]);
+});
+
+test("applying a tee sets the hole count and keeps entered scores", () => {
+  const holes = [{ ...newHole(), scores: { p1: 4 } }, newHole(), newHole(), newHole()];
+  const applied = applyTee(holes, pine.tees[1]);
+  expect(applied.map((h) => [h.par, h.strokeIndex, h.yardage])).toEqual([[4, 1, 300], [3, 2, 301], [4, 3, 302]]);
+  expect(applied[0].scores).toEqual({ p1: 4 });
+  expect(teeFromHoles(" ", applied)).toEqual({ ...pine.tees[1], name: "Default" });
+});
+
+test("loads the original pars-only entries as a default tee", () => {
+  localStorage.setItem(COURSES_STORAGE_KEY, JSON.stringify([{ name: "Old", pars: [3, 4], strokeIndex: [0, 1] }, { bad: 1 }]));
+  const [old, ...rest] = loadCourses();
+  expect(rest).toEqual([]);
+  expect(old.tees).toEqual([
+    {
+      name: "Default",
+      holes: [
+        { par: 3, strokeIndex: "", yardage: "" },
+        { par: 4, strokeIndex: 1, yardage: "" },
+      ],
+    },
+  ]);
+});
+
+test.each([
+  ["JSON", coursesToJson],
+  ["CSV", coursesToCsv],
+])("round-trips the library through %s", (_, write) => {
+  const imported = parseCourseFile(write([pine]));
+  expect(imported?.map(({ name, tees }) => ({ name, tees }))).toEqual([{ name: pine.name, tees: pine.tees }]);
+});
+
+test("CSV places holes by number and fills gaps", () => {
+  const csv = "Course,Hole,Par\nOak,2,3\nOak,1,5\nOak,4,4\n";
+  expect(parseCourseFile(csv)?.[0].tees[0].holes.map((h) => h.par)).toEqual([5, 3, 4, 4]);
+  expect(parseCourseFile("name,par\nx,4")).toBeNull();
+  expect(parseCourseFile("{oops")).toBeNull();
+});
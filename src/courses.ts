@@ -0,0 +1,215 @@
+import { HoleState, isRecord, MAX_HOLES, newHole } from "./match";
+import { parseCsv, toCsv } from "./csv";
+
+// ---------- Types ----------
+export type CourseHole = {
+  par: number;
+  strokeIndex: number | "";         // blank = unrated
+  yardage: number | "";             // blank = unknown
+};
+
+// One set of tee markers; par and stroke index can differ between tees
+export type TeeSet = {
+  name: string;
+  holes: CourseHole[];
+};
+
+export type Course = {
+  id: string;
+  name: string;
+  tees: TeeSet[];
+};
+
+export const COURSES_STORAGE_KEY = "savedCourses";
+export const DEFAULT_TEE = "Default";
+
+export function newCourseId(): string {
+  return "c" + Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+}
+
+// Names match regardless of case and surrounding spaces
+export function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// ---------- Normalizing ----------
+function positive(v: unknown): number | "" {
+  const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : "";
+}
+
+function normalizeCourseHole(raw: unknown): CourseHole {
+  const h = isRecord(raw) ? raw : {};
+  const par = positive(h.par);
+  return {
+    par: par === "" ? 4 : Math.max(3, par),
+    strokeIndex: positive(h.strokeIndex),
+    yardage: positive(h.yardage),
+  };
+}
+
+function normalizeTee(raw: unknown): TeeSet | null {
+  if (!isRecord(raw) || !Array.isArray(raw.holes) || raw.holes.length === 0) return null;
+  return {
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : DEFAULT_TEE,
+    holes: Array.from(raw.holes.slice(0, MAX_HOLES), normalizeCourseHole),   // also fills gaps
+  };
+}
+
+// Accepts the current shape and the original `{ name, pars, strokeIndex? }`
+// entries (stroke index 0 meant unrated), which become a single default tee.
+export function normalizeCourse(raw: unknown): Course | null {
+  if (!isRecord(raw) || typeof raw.name !== "string" || !raw.name.trim()) return null;
+  const name = raw.name.trim();
+  const id = typeof raw.id === "string" && raw.id ? raw.id : newCourseId();
+
+  if (Array.isArray(raw.pars)) {
+    const si: unknown[] = Array.isArray(raw.strokeIndex) ? raw.strokeIndex : [];
+    const tee = normalizeTee({ holes: raw.pars.map((par: unknown, i: number) => ({ par, strokeIndex: si[i] })) });
+    return tee ? { id, name, tees: [tee] } : null;
+  }
+
+  const tees: TeeSet[] = [];
+  for (const t of Array.isArray(raw.tees) ? raw.tees : []) {
+    const tee = normalizeTee(t);
+    if (tee && !tees.some((x) => sameName(x.name, tee.name))) tees.push(tee);
+  }
+  return tees.length > 0 ? { id, name, tees } : null;
+}
+
+// ---------- Library ----------
+// Save a course, replacing any course of the same name. Tees merge: a tee
+// with a name the course already has replaces it, new tees are added.
+export function upsertCourse(courses: Course[], course: Course): Course[] {
+  const existing = courses.find((c) => sameName(c.name, course.name));
+  if (!existing) return [...courses, course];
+  const tees = [...existing.tees];
+  for (const tee of course.tees) {
+    const at = tees.findIndex((t) => sameName(t.name, tee.name));
+    if (at >= 0) tees[at] = tee;
+    else tees.push(tee);
+  }
+  return courses.map((c) => (c === existing ? { ...existing, name: course.name.trim(), tees } : c));
+}
+
+// Null when another course already has the name
+export function renameCourse(courses: Course[], id: string, name: string): Course[] | null {
+  const trimmed = name.trim();
+  if (!trimmed || courses.some((c) => c.id !== id && sameName(c.name, trimmed))) return null;
+  return courses.map((c) => (c.id === id ? { ...c, name: trimmed } : c));
+}
+
+export function removeCourse(courses: Course[], id: string): Course[] {
+  return courses.filter((c) => c.id !== id);
+}
+
+// Removing the last tee removes the course
+export function removeTee(courses: Course[], id: string, teeName: string): Course[] {
+  return courses
+    .map((c) => (c.id === id ? { ...c, tees: c.tees.filter((t) => !sameName(t.name, teeName)) } : c))
+    .filter((c) => c.tees.length > 0);
+}
+
+// ---------- Holes ----------
+export function teeFromHoles(name: string, holes: HoleState[]): TeeSet {
+  return {
+    name: name.trim() || DEFAULT_TEE,
+    holes: holes.map((h) => ({
+      par: typeof h.par === "number" ? Math.max(3, h.par) : 4,
+      strokeIndex: typeof h.strokeIndex === "number" && h.strokeIndex > 0 ? h.strokeIndex : "",
+      yardage: typeof h.yardage === "number" && h.yardage > 0 ? h.yardage : "",
+    })),
+  };
+}
+
+// The round takes the tee's hole count; anything entered on holes that
+// remain is kept.
+export function applyTee(holes: HoleState[], tee: TeeSet): HoleState[] {
+  return tee.holes.map((t, i): HoleState => ({
+    ...(holes[i] ?? newHole()),
+    par: t.par,
+    strokeIndex: t.strokeIndex,
+    yardage: t.yardage,
+  }));
+}
+
+// ---------- Storage ----------
+export function loadCourses(storage: Storage = localStorage): Course[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(COURSES_STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.map(normalizeCourse).filter((c): c is Course => c !== null) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCourses(courses: Course[], storage: Storage = localStorage) {
+  try {
+    storage.setItem(COURSES_STORAGE_KEY, JSON.stringify(courses));
+  } catch {
+    // Quota exceeded or storage disabled
+  }
+}
+
+// ---------- Import / Export ----------
+const CSV_HEADER = ["course", "tee", "hole", "par", "stroke_index", "yardage"];
+
+export function coursesToJson(courses: Course[]): string {
+  return JSON.stringify({ courses: courses.map(({ name, tees }) => ({ name, tees })) }, null, 2);
+}
+
+// One row per hole, so the file reads naturally in a spreadsheet
+export function coursesToCsv(courses: Course[]): string {
+  const rows: (string | number)[][] = [CSV_HEADER];
+  for (const c of courses) {
+    for (const t of c.tees) {
+      t.holes.forEach((h, hi) => rows.push([c.name, t.name, hi + 1, h.par, h.strokeIndex, h.yardage]));
+    }
+  }
+  return toCsv(rows);
+}
+
+function coursesFromJson(text: string): Course[] | null {
+  const parsed = JSON.parse(text);
+  const list: unknown[] = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.courses) ? parsed.courses : [];
+  const courses = list.map(normalizeCourse).filter((c): c is Course => c !== null);
+  return courses.length > 0 ? courses : null;
+}
+
+function coursesFromCsv(text: string): Course[] | null {
+  const [header, ...rows] = parseCsv(text);
+  const col = (name: string) => header?.findIndex((h) => h.trim().toLowerCase() === name) ?? -1;
+  const [ci, ti, hi, pi, si, yi] = CSV_HEADER.map(col);
+  if (ci < 0 || pi < 0) return null;
+
+  // Holes are placed by their hole number when given, else in row order
+  const byCourse = new Map<string, { name: string; tees: Map<string, { name: string; holes: unknown[] }> }>();
+  for (const r of rows) {
+    const name = (r[ci] ?? "").trim();
+    if (!name) continue;
+    const teeName = (ti >= 0 ? r[ti] ?? "" : "").trim() || DEFAULT_TEE;
+    const course = byCourse.get(name.toLowerCase()) ?? { name, tees: new Map() };
+    byCourse.set(name.toLowerCase(), course);
+    const tee = course.tees.get(teeName.toLowerCase()) ?? { name: teeName, holes: [] };
+    course.tees.set(teeName.toLowerCase(), tee);
+    const n = hi >= 0 ? Number(r[hi]) : NaN;
+    const at = Number.isInteger(n) && n >= 1 && n <= MAX_HOLES ? n - 1 : tee.holes.length;
+    tee.holes[at] = { par: r[pi], strokeIndex: si >= 0 ? r[si] : "", yardage: yi >= 0 ? r[yi] : "" };
+  }
+
+  const courses = Array.from(byCourse.values())
+    .map((c) => normalizeCourse({ name: c.name, tees: Array.from(c.tees.values()) }))
+    .filter((c): c is Course => c !== null);
+  return courses.length > 0 ? courses : null;
+}
+
+// Read an exported file (JSON or CSV). Null when nothing usable is in it.
+export function parseCourseFile(text: string): Course[] | null {
+  try {
+    return text.trimStart().startsWith("{") || text.trimStart().startsWith("[")
+      ? coursesFromJson(text)
+      : coursesFromCsv(text);
+  } catch {
+    return null;
+  }
+}
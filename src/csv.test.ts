@@ -0,0 +1,14 @@
+import { parseCsv, toCsv } from "./csv";
+
+test("quotes only the cells that need it", () => {
+  expect(toCsv([["a", 1, ""], ['Pine, "Old" Course', "x\ny"]])).toBe('a,1,\n"Pine, ""Old"" Course","x\ny"\n');
+});
+
+test("parses what it writes", () => {
+  const rows = [["course", "tee"], ['Pine, "Old"', "White"], ["a\nb", ""]];
+  expect(parseCsv(toCsv(rows))).toEqual(rows);
+});
+
+test("accepts CRLF, a missing final newline and blank lines", () => {
+  expect(parseCsv("a,b\r\n\r\n1,2")).toEqual([["a", "b"], ["1", "2"]]);
+});
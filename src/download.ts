@@ -0,0 +1,12 @@
+// Hand a generated file to the browser as a download
+export function downloadFile(filename: string, contents: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Some browsers start the download after click() returns; let it pick the URL up first
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,52 @@
+import React from "react";
+import { FinalCarry } from "../match";
+import { bestBallWorth } from "../matchStatus";
+import { computeDeltas } from "../scoring";
+import { Select, Toggle } from "../ui";
+import { MultiplierSettings } from "./multiplierRules";
+import { PressHoleInputs, PressSettings, withPresses } from "./presses";
+import { GameFormat, SettingsPanelProps } from "./types";
+
+function BestBallSettings({ settings, setSettings }: SettingsPanelProps) {
+  return (
+    <>
+      <div className="flex justify-between"><span>Carry Over</span><Toggle checked={settings.carryOver} onChange={(v) => setSettings({ ...settings, carryOver: v })} /></div>
+      {settings.carryOver && (
+        <div className="flex items-center justify-between">
+          <span>Carry left at the end</span>
+          <Select
+            value={settings.bestBallFinalCarry}
+            label="Carry left at the end"
+            onChange={(v) => setSettings({ ...settings, bestBallFinalCarry: v as FinalCarry })}
+            options={[
+              { label: "Playoff hole", value: "playoff" },
+              { label: "Split", value: "split" },
+              { label: "Void", value: "void" },
+            ]}
+          />
+        </div>
+      )}
+      <div className="flex justify-between"><span>Second ball breaks ties</span><Toggle checked={settings.bestBallSecondBall} onChange={(v) => setSettings({ ...settings, bestBallSecondBall: v })} /></div>
+      <div className="flex justify-between"><span>Split single-team ties</span><Toggle checked={settings.bestBallTieSplit} onChange={(v) => setSettings({ ...settings, bestBallTieSplit: v })} /></div>
+      <div className="flex justify-between"><span>Solo = Double</span><Toggle checked={settings.soloDouble} onChange={(v) => setSettings({ ...settings, soloDouble: v })} /></div>
+      <MultiplierSettings settings={settings} setSettings={setSettings} />
+      <PressSettings settings={settings} setSettings={setSettings} />
+    </>
+  );
+}
+
+// The original side bet: T1/T2 best ball per hole, with a skins-like
+// fallback when only one side is picked. Ties carry or push, optionally
+// after a second-ball tie-break (or a split among tied low balls when only
+// one side is picked). Presses, when on, are side bets
+// layered over the holes.
+export const bestBall: GameFormat = {
+  id: "bestBall",
+  name: "Best Ball",
+  wagerLabel: "Wager / Hole ($)",
+  usesTeamPicks: true,
+  compute: (input) => withPresses(computeDeltas(input.holes, input.settings, input.players), input),
+  SettingsPanel: BestBallSettings,
+  HoleInputs: PressHoleInputs,
+  holeWorth: bestBallWorth,
+};
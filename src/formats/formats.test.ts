@@ -0,0 +1,201 @@
+import { DEFAULT_SETTINGS, FormatId, HoleState, Player, Settings, TeamPick } from "../match";
+import { findUnbalancedHoles, sumTotals } from "../scoring";
+import { FORMATS, getFormat } from ".";
+import { bestBall } from "./bestBall";
+import { computeNassau, nassauBets } from "./nassau";
+import { computeSkins } from "./skins";
+import { computeVegas, vegasNumber } from "./vegas";
+import { computeWolf, LONE_WOLF, wolfFor } from "./wolf";
+
+// Players get ids p1, p2, … in roster order
+const PLAYERS: Player[] = ["A", "B", "C", "D"].map((name, i) => ({ id: `p${i + 1}`, name, handicap: "" }));
+
+// "T1:4 T2:5" → one hole; a bare number means no team pick ("Sit")
+function hole(spec: string, par = 4, extras: HoleState["extras"] = {}): HoleState {
+  const teamPicks: Record<string, TeamPick> = {};
+  const scores: Record<string, number | ""> = {};
+  spec.split(" ").forEach((tok, i) => {
+    const [a, b] = tok.split(":");
+    const score = b === undefined ? a : b;
+    if (b !== undefined) teamPicks[`p${i + 1}`] = a as TeamPick;
+    if (score !== "") scores[`p${i + 1}`] = Number(score);
+  });
+  return { par, strokeIndex: "", yardage: "", teamPicks, scores, extras };
+}
+
+function input(holes: HoleState[], over: Partial<Settings> = {}) {
+  return { holes, settings: { ...DEFAULT_SETTINGS, ...over }, players: PLAYERS };
+}
+
+test("every format is registered and best ball is the fallback", () => {
+  expect(FORMATS.map((f) => f.id)).toEqual(["bestBall", "nassau", "skins", "wolf", "vegas"]);
+  expect(getFormat("bogus" as unknown as FormatId).id).toBe("bestBall");
+});
+
+describe("skins", () => {
+  test("a lone low score collects from everyone", () => {
+    const { deltas, notes } = computeSkins(input([hole("3 4 5 4")]));
+    expect(deltas[0]).toEqual([300, -100, -100, -100]);
+    expect(notes).toEqual(["H1: A wins a skin ($1.00 each)"]);
+  });
+
+  test("ties carry the skin", () => {
+    const { deltas, explanations, notes } = computeSkins(input([hole("4 4 5 5"), hole("5 4 5 5"), hole("4 4 4 4")]));
+    expect(explanations.map((e) => e.status)).toEqual(["tied", "won", "tied"]);
+    expect(deltas[1]).toEqual([-200, 600, -200, -200]);
+    expect(notes).toContain("1 skin still carrying");
+  });
+
+  test("ties push when carry-over is off", () => {
+    const { deltas } = computeSkins(input([hole("4 4 5 5"), hole("5 4 5 5")], { carryOver: false }));
+    expect(deltas[1]).toEqual([-100, 300, -100, -100]);
+  });
+
+  test("waits for every score", () => {
+    const { explanations } = computeSkins(input([hole("3 4 5 ")]));
+    expect(explanations[0].status).toBe("incomplete");
+  });
+});
+
+describe("nassau", () => {
+  test("splits the round into front, back and overall", () => {
+    expect(nassauBets(18).map((b) => [b.label, b.start, b.end])).toEqual([
+      ["Front", 0, 8],
+      ["Back", 9, 17],
+      ["Overall", 0, 17],
+    ]);
+    expect(nassauBets(9).map((b) => [b.start, b.end])).toEqual([[0, 4], [5, 8], [0, 8]]);
+  });
+
+  const t1Wins = "T1:3 T1:5 T2:4 T2:5";
+  const t2Wins = "T1:5 T1:5 T2:4 T2:5";
+  const halved = "T1:4 T1:5 T2:4 T2:5";
+
+  test("settles each bet on its last hole", () => {
+    // T1 takes the front 2 up, T2 takes the back 1 up, T1 wins overall 1 up
+    const holes = [hole(t1Wins), hole(t1Wins), hole(t2Wins), hole(t2Wins)];
+    const { deltas, notes } = computeNassau(input(holes, { nassauAutoPress: 0 }));
+    expect(notes).toEqual(["Front: T1 2 up, T1 wins $1.00", "Back: T2 2 up, T2 wins $1.00", "Overall: halved"]);
+    expect(deltas[1]).toEqual([100, 100, -100, -100]);
+    expect(deltas[3]).toEqual([-100, -100, 100, 100]);
+  });
+
+  test("leaves unfinished bets open", () => {
+    const holes = [hole(t1Wins), hole(halved), hole(t1Wins), hole("T1: T1: T2: T2:")];
+    const { totals, notes } = computeNassau(input(holes, { nassauAutoPress: 0 }));
+    expect(notes).toEqual(["Front: T1 1 up, T1 wins $1.00", "Back: T1 1 up, in progress", "Overall: T1 2 up, in progress"]);
+    expect(totals).toEqual([100, 100, -100, -100]);
+  });
+
+  test("auto-presses when a side goes down", () => {
+    const holes = Array.from({ length: 6 }, (_, i) => hole(i < 2 ? t2Wins : i < 5 ? t1Wins : halved));
+    const { deltas, notes } = computeNassau(input(holes, { nassauAutoPress: 2 }));
+    // Two down after H2 presses the front and overall; presses can press again
+    expect(notes).toEqual([
+      "Front: T2 1 up, T2 wins $1.00",
+      "Back: T1 2 up, T1 wins $1.00",
+      "Overall: T1 1 up, T1 wins $1.00",
+      "Front press (H3): T1 1 up, T1 wins $1.00",
+      "Overall press (H3): T1 3 up, T1 wins $1.00",
+      "Overall press (H5): T1 1 up, T1 wins $1.00",
+      "Back press (H6): halved",
+    ]);
+    expect(deltas[2]).toEqual([0, 0, 0, 0]);
+    expect(deltas[5]).toEqual([400, 400, -400, -400]);
+    expect(findUnbalancedHoles(deltas)).toEqual([]);
+  });
+});
+
+describe("best ball presses", () => {
+  const t1Wins = "T1:4 T1:5 T2:5 T2:5";
+  const t2Wins = "T1:5 T1:5 T2:4 T2:5";
+
+  test("are off unless switched on", () => {
+    expect(bestBall.compute(input([hole(t1Wins)])).presses).toBeUndefined();
+  });
+
+  test("auto-press for the side two down, settled apart from the holes", () => {
+    const holes = [hole(t1Wins), hole(t1Wins), hole(t2Wins), hole(t2Wins)];
+    const { deltas, totals, presses } = bestBall.compute(input(holes, { bestBallPresses: true, bestBallAutoPress: 2 }));
+    expect(presses).toEqual([
+      {
+        label: "T2 auto-press (H3)",
+        start: 2,
+        stake: 100,
+        up: -2,
+        settled: true,
+        summary: "T2 2 up, T2 wins $1.00",
+        amounts: [-100, -100, 100, 100],
+      },
+    ]);
+    expect(sumTotals(deltas, 4)).toEqual([0, 0, 0, 0]);
+    expect(totals).toEqual([-100, -100, 100, 100]);
+  });
+
+  test("a called double-down plays for twice the wager from its hole", () => {
+    const holes = [hole(t1Wins), hole(t2Wins, 4, { press: "T2", pressDouble: true }), hole(t2Wins), hole(t1Wins)];
+    const { presses } = bestBall.compute(input(holes, { bestBallPresses: true, bestBallAutoPress: 0 }));
+    expect(presses?.map((p) => [p.label, p.summary, p.amounts])).toEqual([
+      ["T2 double-down (H2)", "T2 1 up, T2 wins $2.00", [-200, -200, 200, 200]],
+    ]);
+  });
+
+  test("stay open until the last hole is played", () => {
+    const holes = [hole(t2Wins, 4, { press: "T1", pressDouble: false }), hole("T1: T1: T2: T2:")];
+    const { presses, totals } = bestBall.compute(input(holes, { bestBallPresses: true }));
+    expect(presses?.[0].summary).toBe("T2 1 up, in progress");
+    expect(totals).toEqual([-100, -100, 100, 100]);
+  });
+});
+
+describe("wolf", () => {
+  test("rotates through the named players", () => {
+    const active = [PLAYERS[0], PLAYERS[2], PLAYERS[3]];
+    expect([0, 1, 2, 3, 4].map((hi) => wolfFor(hi, active)?.name)).toEqual(["A", "C", "D", "A", "C"]);
+    expect(wolfFor(0, [])).toBeNull();
+  });
+
+  test("wolf and partner against the other two", () => {
+    const { deltas } = computeWolf(input([hole("4 5 3 6", 4, { wolfPartner: "p3" })], { wager: 2 }));
+    expect(deltas[0]).toEqual([200, -200, 200, -200]);
+  });
+
+  test("a lone wolf plays for the multiplier", () => {
+    // Hole 2: B is the wolf
+    const holes = [hole("4 4 4 4", 4, { wolfPartner: "p2" }), hole("5 3 4 6", 4, { wolfPartner: LONE_WOLF })];
+    const { deltas } = computeWolf(input(holes, { wolfLoneMultiplier: 2 }));
+    expect(deltas[1]).toEqual([-200, 600, -200, -200]);
+  });
+
+  test("waits for the wolf to pick", () => {
+    const { explanations } = computeWolf(input([hole("4 5 3 6")]));
+    expect(explanations[0].status).toBe("incomplete");
+  });
+});
+
+describe("vegas", () => {
+  test.each<[number, number, boolean, number]>([
+    [4, 5, false, 45],
+    [5, 4, false, 45],
+    [4, 5, true, 54],
+    [4, 10, false, 104],
+  ])("vegasNumber(%i, %i, flip=%s)", (a, b, flip, n) => {
+    expect(vegasNumber(a, b, flip)).toBe(n);
+  });
+
+  test("pays the difference per point", () => {
+    const { deltas } = computeVegas(input([hole("T1:4 T1:5 T2:5 T2:6")], { vegasBirdieFlip: false }));
+    expect(deltas[0]).toEqual([1100, 1100, -1100, -1100]);
+  });
+
+  test("a birdie flips the other side", () => {
+    // 35 vs 65 instead of 56
+    const { deltas } = computeVegas(input([hole("T1:3 T1:5 T2:5 T2:6")], { vegasBirdieFlip: true }));
+    expect(deltas[0]).toEqual([3000, 3000, -3000, -3000]);
+  });
+
+  test("needs two a side", () => {
+    const { explanations } = computeVegas(input([hole("T1:4 T1:5 T2:5 6")]));
+    expect(explanations[0].status).toBe("no-contest");
+  });
+});
@@ -0,0 +1,15 @@
+import { FormatId } from "../match";
+import { bestBall } from "./bestBall";
+import { nassau } from "./nassau";
+import { skins } from "./skins";
+import { GameFormat } from "./types";
+import { vegas } from "./vegas";
+import { wolf } from "./wolf";
+
+export type { FormatInput, GameFormat, HoleInputsProps, SettingsPanelProps } from "./types";
+
+export const FORMATS: GameFormat[] = [bestBall, nassau, skins, wolf, vegas];
+
+export function getFormat(id: FormatId): GameFormat {
+  return FORMATS.find((f) => f.id === id) ?? bestBall;
+}
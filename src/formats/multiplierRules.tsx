@@ -0,0 +1,100 @@
+import React from "react";
+import { MultiplierRule } from "../match";
+import { describeRule, MULTIPLIER_PRESETS } from "../multipliers";
+import { Label, NumberField, Select, Toggle } from "../ui";
+import { SettingsPanelProps } from "./types";
+
+const TO_PAR_OPTIONS = [
+  { label: "Par", value: "0" },
+  { label: "Birdie", value: "-1" },
+  { label: "Eagle", value: "-2" },
+  { label: "Albatross", value: "-3" },
+];
+
+const PAR_OPTIONS = [
+  { label: "Any par", value: "" },
+  { label: "Par 3", value: "3" },
+  { label: "Par 4", value: "4" },
+  { label: "Par 5", value: "5" },
+];
+
+// The house rules table: each row is a preset to start from, then editable
+// in place. Blank number fields fall back to 1 so a half-typed row is harmless.
+export function MultiplierSettings({ settings, setSettings }: SettingsPanelProps) {
+  const rules = settings.multiplierRules;
+  const setRules = (next: MultiplierRule[]) => setSettings({ ...settings, multiplierRules: next });
+  const update = (i: number, rule: MultiplierRule) => setRules(rules.map((r, j) => (j === i ? rule : r)));
+
+  return (
+    <div>
+      <Label>Multipliers</Label>
+      <div className="mt-1 space-y-2">
+        {rules.map((rule, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2 rounded border px-2 py-1 text-sm">
+            {rule.kind === "score" && (
+              <>
+                <Select
+                  value={String(rule.toPar)}
+                  label={`Rule ${i + 1} score`}
+                  onChange={(v) => update(i, { ...rule, toPar: Number(v) })}
+                  options={TO_PAR_OPTIONS}
+                />
+                <Select
+                  value={String(rule.par)}
+                  label={`Rule ${i + 1} par`}
+                  onChange={(v) => update(i, { ...rule, par: v === "" ? "" : Number(v) })}
+                  options={PAR_OPTIONS}
+                />
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={rule.orBetter} onChange={(e) => update(i, { ...rule, orBetter: e.target.checked })} />
+                  or better
+                </label>
+              </>
+            )}
+            {rule.kind === "hole" && (
+              <>
+                <span>Hole</span>
+                <div className="w-16">
+                  <NumberField
+                    value={rule.hole}
+                    min={1}
+                    label={`Rule ${i + 1} hole`}
+                    onChange={(v) => update(i, { ...rule, hole: v === "" ? 1 : Number(v) })}
+                  />
+                </div>
+              </>
+            )}
+            {rule.kind === "holeInOne" && <span>{describeRule(rule)}</span>}
+            <span className="ml-auto">×</span>
+            <div className="w-16">
+              <NumberField
+                value={rule.multiplier}
+                min={1}
+                label={`${describeRule(rule)} multiplier`}
+                onChange={(v) => update(i, { ...rule, multiplier: v === "" ? 1 : Number(v) })}
+              />
+            </div>
+            <button
+              onClick={() => setRules(rules.filter((_, j) => j !== i))}
+              aria-label={`Remove ${describeRule(rule)} rule`}
+              className="px-1 text-xs text-gray-500"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {MULTIPLIER_PRESETS.map((p) => (
+          <button key={p.label} onClick={() => setRules([...rules, p.rule])} className="rounded-lg border px-2 py-1 text-xs">
+            + {p.label}
+          </button>
+        ))}
+      </div>
+      <div className="mt-3 flex justify-between">
+        <span>Multipliers stack with carry and solo</span>
+        <Toggle checked={settings.multipliersStack} onChange={(v) => setSettings({ ...settings, multipliersStack: v })} />
+      </div>
+    </div>
+  );
+}
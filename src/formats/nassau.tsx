@@ -0,0 +1,134 @@
+import React from "react";
+import { activePlayers } from "../match";
+import { formatDollars, toCents } from "../money";
+import {
+  bestOf,
+  effectivePar,
+  HoleExplanation,
+  newExplanation,
+  payPot,
+  scoreGrid,
+  ScoringResult,
+  sumTotals,
+  teamsOn,
+} from "../scoring";
+import { Label, NumberField } from "../ui";
+import { FormatInput, GameFormat, SettingsPanelProps } from "./types";
+
+export type NassauBet = {
+  segment: string;                  // Front / Back / Overall
+  label: string;
+  start: number;                    // first hole index
+  end: number;                      // last hole index (settles here)
+  up: number;                       // holes up for T1 (negative = T2 up)
+  pressed: boolean;                 // already spawned its auto-press
+};
+
+// Front, back and overall bets. Front/back split the round in half, so a
+// 9-hole round gets two "nines" of 5 and 4.
+export function nassauBets(holeCount: number): NassauBet[] {
+  const bet = (segment: string, start: number, end: number): NassauBet => ({
+    segment,
+    label: segment,
+    start,
+    end,
+    up: 0,
+    pressed: false,
+  });
+  if (holeCount < 2) return [bet("Overall", 0, holeCount - 1)];
+  const half = Math.ceil(holeCount / 2);
+  return [bet("Front", 0, half - 1), bet("Back", half, holeCount - 1), bet("Overall", 0, holeCount - 1)];
+}
+
+// Match play on T1/T2 best ball: each bet is won by the side up on holes when
+// it ends. Teams for a bet are the picks on its first hole. With auto-press
+// on, a side falling `nassauAutoPress` down starts a new bet from the next hole
+// to the end of that bet.
+export function computeNassau({ holes, settings, players }: FormatInput): ScoringResult {
+  const active = activePlayers(players);
+  const grid = scoreGrid(holes, settings, active);
+  const deltas = holes.map(() => Array(active.length).fill(0));
+  const explanations: HoleExplanation[] = [];
+  const teamsAt = (hi: number) => teamsOn(holes[hi], active);
+
+  // +1 T1 won the hole, -1 T2 won, 0 halved, null not decided yet
+  const results = holes.map((hole, hi): number | null => {
+    const explain = newExplanation(effectivePar(hole.par));
+    explanations.push(explain);
+    const { t1, t2 } = teamsAt(hi);
+    if (t1.length === 0 || t2.length === 0) {
+      explain.status = "no-contest";
+      return null;
+    }
+    const best1 = bestOf(grid.play[hi], t1);
+    const best2 = bestOf(grid.play[hi], t2);
+    if (!Number.isFinite(best1) || !Number.isFinite(best2)) return null;
+    explain.bestScore = Math.min(best1, best2);
+    if (best1 === best2) {
+      explain.status = "tied";
+      return 0;
+    }
+    explain.status = "won";
+    explain.winningTeam = best1 < best2 ? "T1" : "T2";
+    explain.winners = best1 < best2 ? t1 : t2;
+    return best1 < best2 ? 1 : -1;
+  });
+
+  const bets = nassauBets(holes.length);
+  for (let hi = 0; hi < holes.length; hi++) {
+    const r = results[hi];
+    if (r === null) continue;
+    for (const bet of [...bets]) {
+      if (hi < bet.start || hi > bet.end) continue;
+      bet.up += r;
+      const trigger = settings.nassauAutoPress;
+      if (trigger > 0 && !bet.pressed && Math.abs(bet.up) >= trigger && hi < bet.end) {
+        bet.pressed = true;
+        bets.push({
+          segment: bet.segment,
+          label: `${bet.segment} press (H${hi + 2})`,
+          start: hi + 1,
+          end: bet.end,
+          up: 0,
+          pressed: false,
+        });
+      }
+    }
+  }
+
+  const stake = toCents(settings.wager);
+  const notes = bets.map((bet) => {
+    const leader = bet.up > 0 ? "T1" : "T2";
+    const margin = `${leader} ${Math.abs(bet.up)} up`;
+    if (results[bet.end] === null) return `${bet.label}: ${bet.up === 0 ? "all square" : margin}, in progress`;
+    if (bet.up === 0) return `${bet.label}: halved`;
+    const { t1, t2 } = teamsAt(bet.start);
+    if (t1.length === 0 || t2.length === 0) return `${bet.label}: ${margin}, no teams on H${bet.start + 1} to settle`;
+    payPot(deltas[bet.end], bet.up > 0 ? t1 : t2, bet.up > 0 ? t2 : t1, stake);
+    return `${bet.label}: ${margin}, ${leader} wins ${formatDollars(stake)}`;
+  });
+
+  return { deltas, totals: sumTotals(deltas, active.length), activeIds: active.map((p) => p.id), explanations, notes };
+}
+
+function NassauSettings({ settings, setSettings }: SettingsPanelProps) {
+  return (
+    <div>
+      <Label>Auto-press when down (holes, 0 = off)</Label>
+      <NumberField
+        value={settings.nassauAutoPress}
+        min={0}
+        onChange={(v) => setSettings({ ...settings, nassauAutoPress: v === "" ? 0 : Number(v) })}
+      />
+    </div>
+  );
+}
+
+export const nassau: GameFormat = {
+  id: "nassau",
+  name: "Nassau",
+  wagerLabel: "Wager / Bet ($)",
+  usesTeamPicks: true,
+  compute: computeNassau,
+  SettingsPanel: NassauSettings,
+};
@@ -0,0 +1,165 @@
+import React from "react";
+import { activePlayers, TeamPick } from "../match";
+import { formatDollars, toCents } from "../money";
+import { HoleExplanation, payPot, PressResult, ScoringResult, teamsOn } from "../scoring";
+import { Label, NumberField, Toggle } from "../ui";
+import { FormatInput, HoleInputsProps, SettingsPanelProps } from "./types";
+
+// Per-hole inputs: the side calling a press on this hole, and whether it's a double-down
+const PRESS = "press";
+const PRESS_DOUBLE = "pressDouble";
+
+type OpenBet = {
+  label: string;
+  start: number;
+  stake: number;
+  up: number;
+  pressed: boolean;                 // already spawned its auto-press
+};
+
+// +1 T1 won the hole, -1 T2 won, 0 halved, null not a T1-v-T2 hole (yet)
+function matchResults({ holes, players }: FormatInput, explanations: HoleExplanation[]): (number | null)[] {
+  const active = activePlayers(players);
+  return explanations.map((e, hi) => {
+    const { t1, t2 } = teamsOn(holes[hi], active);
+    if (t1.length === 0 || t2.length === 0) return null;
+    if (e.status === "tied") return 0;
+    if (e.status !== "won") return null;
+    return e.winningTeam === "T1" ? 1 : -1;
+  });
+}
+
+// Presses ride on the best-ball holes as match play to the last hole. The
+// round itself counts as the first match, so falling `bestBallAutoPress`
+// down in it (or in any press) starts an automatic press on the next hole.
+// A called press starts on the hole it's called on; a double-down is a press
+// for twice the wager. Teams for a press are the picks on its first hole.
+export function computePresses(input: FormatInput, explanations: HoleExplanation[]): PressResult[] {
+  const { holes, settings, players } = input;
+  const active = activePlayers(players);
+  const results = matchResults(input, explanations);
+  const wager = toCents(settings.wager);
+  const last = holes.length - 1;
+  const round: OpenBet = { label: "Round", start: 0, stake: 0, up: 0, pressed: false };
+  const bets: OpenBet[] = [round];
+
+  for (let hi = 0; hi <= last; hi++) {
+    const caller = holes[hi].extras[PRESS];
+    if (caller === "T1" || caller === "T2") {
+      const double = holes[hi].extras[PRESS_DOUBLE] === true;
+      bets.push({
+        label: `${caller} ${double ? "double-down" : "press"} (H${hi + 1})`,
+        start: hi,
+        stake: wager * (double ? 2 : 1),
+        up: 0,
+        pressed: false,
+      });
+    }
+
+    const r = results[hi];
+    if (r === null) continue;
+    for (const bet of [...bets]) {
+      if (hi < bet.start) continue;
+      bet.up += r;
+      const trigger = settings.bestBallAutoPress;
+      if (trigger > 0 && !bet.pressed && Math.abs(bet.up) >= trigger && hi < last) {
+        bet.pressed = true;
+        bets.push({
+          label: `${bet.up > 0 ? "T2" : "T1"} auto-press (H${hi + 2})`,
+          start: hi + 1,
+          stake: wager,
+          up: 0,
+          pressed: false,
+        });
+      }
+    }
+  }
+
+  return bets.slice(1).map((bet): PressResult => {
+    const amounts = Array(active.length).fill(0);
+    const leader = bet.up > 0 ? "T1" : "T2";
+    const margin = `${leader} ${Math.abs(bet.up)} up`;
+    const { label, start, stake, up } = bet;
+    const result = (settled: boolean, summary: string): PressResult => ({
+      label,
+      start,
+      stake,
+      up,
+      settled,
+      summary,
+      amounts,
+    });
+
+    if (last < 0 || results[last] === null) return result(false, `${bet.up === 0 ? "all square" : margin}, in progress`);
+    if (bet.up === 0) return result(true, "halved");
+    const { t1, t2 } = teamsOn(holes[bet.start], active);
+    if (t1.length === 0 || t2.length === 0) return result(false, `${margin}, no teams on H${bet.start + 1} to settle`);
+    payPot(amounts, bet.up > 0 ? t1 : t2, bet.up > 0 ? t2 : t1, bet.stake);
+    return result(true, `${margin}, ${leader} wins ${formatDollars(bet.stake)}`);
+  });
+}
+
+// Layer the presses onto a best-ball result; totals include them
+export function withPresses(result: ScoringResult, input: FormatInput): ScoringResult {
+  if (!input.settings.bestBallPresses) return result;
+  const presses = computePresses(input, result.explanations);
+  const totals = result.totals.map((t, aj) => presses.reduce((sum, p) => sum + p.amounts[aj], t));
+  return { ...result, totals, presses };
+}
+
+export function PressSettings({ settings, setSettings }: SettingsPanelProps) {
+  return (
+    <>
+      <div className="flex justify-between"><span>Presses</span><Toggle checked={settings.bestBallPresses} onChange={(v) => setSettings({ ...settings, bestBallPresses: v })} /></div>
+      {settings.bestBallPresses && (
+        <div>
+          <Label>Auto-press when down (holes, 0 = off)</Label>
+          <NumberField
+            value={settings.bestBallAutoPress}
+            min={0}
+            onChange={(v) => setSettings({ ...settings, bestBallAutoPress: v === "" ? 0 : Number(v) })}
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+export function PressHoleInputs({ hole, settings, onUpdate }: HoleInputsProps) {
+  if (!settings.bestBallPresses) return null;
+  const caller = hole.extras[PRESS];
+  const double = hole.extras[PRESS_DOUBLE] === true;
+
+  const call = (team: Exclude<TeamPick, "Sit"> | null, asDouble: boolean) => {
+    const { [PRESS]: _press, [PRESS_DOUBLE]: _double, ...rest } = hole.extras;
+    onUpdate({ ...hole, extras: team ? { ...rest, [PRESS]: team, [PRESS_DOUBLE]: asDouble } : rest });
+  };
+
+  if (caller === "T1" || caller === "T2") {
+    return (
+      <div className="mb-4 flex items-center justify-between rounded-md bg-amber-50 px-3 py-2 text-sm">
+        <span>
+          {caller} {double ? "doubled down" : "pressed"} from this hole
+        </span>
+        <button onClick={() => call(null, false)} className="text-xs text-red-600 underline">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap gap-2">
+      {(["T1", "T2"] as const).map((team) => (
+        <React.Fragment key={team}>
+          <button onClick={() => call(team, false)} className="rounded-lg border px-3 py-1 text-sm">
+            {team} Press
+          </button>
+          <button onClick={() => call(team, true)} className="rounded-lg border px-3 py-1 text-sm">
+            {team} Double Down
+          </button>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import React from "react";
+import { activePlayers } from "../match";
+import { skinsWorth } from "../matchStatus";
+import { formatDollars, toCents } from "../money";
+import {
+  bestOf,
+  effectivePar,
+  HoleExplanation,
+  newExplanation,
+  scoreGrid,
+  ScoringResult,
+  sumTotals,
+} from "../scoring";
+import { Toggle } from "../ui";
+import { FormatInput, GameFormat, SettingsPanelProps } from "./types";
+
+// Every player for themselves: a lone low score wins the skin and collects
+// its value from each other player. Ties carry the skin when carryOver is on.
+export function computeSkins({ holes, settings, players }: FormatInput): ScoringResult {
+  const active = activePlayers(players);
+  const everyone = active.map((_, aj) => aj);
+  const grid = scoreGrid(holes, settings, active);
+  const deltas = holes.map(() => Array(active.length).fill(0));
+  const explanations: HoleExplanation[] = [];
+  const notes: string[] = [];
+  let carry = 0;
+
+  holes.forEach((hole, hi) => {
+    const explain = newExplanation(effectivePar(hole.par), carry);
+    explanations.push(explain);
+    const scores = grid.play[hi];
+
+    if (everyone.length < 2) {
+      explain.status = "no-contest";
+      return;
+    }
+    if (scores.some((s) => s === null)) return;
+
+    const best = bestOf(scores, everyone);
+    const low = everyone.filter((aj) => scores[aj] === best);
+    explain.bestScore = best;
+    if (low.length !== 1) {
+      explain.status = "tied";
+      if (settings.carryOver) carry += 1;
+      return;
+    }
+
+    const winner = low[0];
+    explain.status = "won";
+    explain.winners = [winner];
+    explain.stake = toCents(settings.wager) * (1 + carry);
+    for (const aj of everyone) {
+      if (aj === winner) continue;
+      deltas[hi][aj] -= explain.stake;
+      deltas[hi][winner] += explain.stake;
+    }
+    const skins = 1 + carry;
+    notes.push(`H${hi + 1}: ${active[winner].name} wins ${skins === 1 ? "a skin" : `${skins} skins`} (${formatDollars(explain.stake)} each)`);
+    carry = 0;
+  });
+
+  if (carry > 0) notes.push(`${carry} skin${carry === 1 ? "" : "s"} still carrying`);
+
+  return { deltas, totals: sumTotals(deltas, active.length), activeIds: active.map((p) => p.id), explanations, notes };
+}
+
+function SkinsSettings({ settings, setSettings }: SettingsPanelProps) {
+  return (
+    <div className="flex justify-between"><span>Carry Over</span><Toggle checked={settings.carryOver} onChange={(v) => setSettings({ ...settings, carryOver: v })} /></div>
+  );
+}
+
+export const skins: GameFormat = {
+  id: "skins",
+  name: "Skins",
+  wagerLabel: "Skin Value ($)",
+  usesTeamPicks: false,
+  compute: computeSkins,
+  SettingsPanel: SkinsSettings,
+  holeWorth: (_, explanation, settings) => skinsWorth(explanation, settings),
+};
@@ -0,0 +1,37 @@
+import type React from "react";
+import { FormatId, HoleState, Player, Settings } from "../match";
+import { HoleWorth } from "../matchStatus";
+import { HoleExplanation, ScoringResult } from "../scoring";
+
+export type FormatInput = {
+  holes: HoleState[];
+  settings: Settings;
+  players: Player[];
+};
+
+export type SettingsPanelProps = {
+  settings: Settings;
+  setSettings: (s: Settings) => void;
+};
+
+export type HoleInputsProps = {
+  holeIndex: number;
+  hole: HoleState;
+  players: Player[];
+  settings: Settings;
+  onUpdate: (h: HoleState) => void;
+};
+
+// A game the group can play over the same hole-by-hole scores. Formats own
+// their settings UI, any extra per-hole inputs (stored in HoleState.extras)
+// and the payout computation that feeds the ledger.
+export type GameFormat = {
+  id: FormatId;
+  name: string;
+  wagerLabel: string;               // what Settings.wager buys in this format
+  usesTeamPicks: boolean;           // show the T1/T2/Sit picker in HoleEntry
+  compute: (input: FormatInput) => ScoringResult;
+  SettingsPanel: (props: SettingsPanelProps) => React.ReactElement | null;
+  HoleInputs?: (props: HoleInputsProps) => React.ReactElement | null;
+  holeWorth?: (hi: number, explanation: HoleExplanation, settings: Settings) => HoleWorth;  // for the status panel
+};
@@ -0,0 +1,90 @@
+import React from "react";
+import { activePlayers, pickOf } from "../match";
+import { toCents } from "../money";
+import {
+  effectivePar,
+  HoleExplanation,
+  newExplanation,
+  payPot,
+  scoreGrid,
+  ScoringResult,
+  sumTotals,
+} from "../scoring";
+import { Toggle } from "../ui";
+import { FormatInput, GameFormat, SettingsPanelProps } from "./types";
+
+// Two scores read as one number, low digit first (4 and 5 → 45). A flip puts
+// the high score first (54); a double-digit score always goes first (10 and 4 → 104).
+export function vegasNumber(a: number, b: number, flip = false): number {
+  const lo = Math.min(a, b);
+  const hi = Math.max(a, b);
+  return Number(flip || hi >= 10 ? `${hi}${lo}` : `${lo}${hi}`);
+}
+
+// Two-vs-two: the lower team number wins the difference, times the wager,
+// from each opponent. Needs exactly two players on each side.
+export function computeVegas({ holes, settings, players }: FormatInput): ScoringResult {
+  const active = activePlayers(players);
+  const grid = scoreGrid(holes, settings, active);
+  const deltas = holes.map(() => Array(active.length).fill(0));
+  const explanations: HoleExplanation[] = [];
+
+  holes.forEach((hole, hi) => {
+    const par = effectivePar(hole.par);
+    const explain = newExplanation(par);
+    explanations.push(explain);
+
+    const t1: number[] = [];
+    const t2: number[] = [];
+    active.forEach((p, aj) => {
+      const pick = pickOf(hole, p.id);
+      if (pick === "T1") t1.push(aj);
+      else if (pick === "T2") t2.push(aj);
+    });
+    if (t1.length !== 2 || t2.length !== 2) {
+      explain.status = "no-contest";
+      return;
+    }
+
+    const scores = grid.play[hi];
+    const [a1, b1] = t1.map((aj) => scores[aj]);
+    const [a2, b2] = t2.map((aj) => scores[aj]);
+    if (a1 === null || b1 === null || a2 === null || b2 === null) return;
+
+    const basis = settings.multiplierBasis === "net" ? grid.net[hi] : grid.gross[hi];
+    const birdie = (team: number[]) => team.some((aj) => basis[aj] !== null && basis[aj]! < par);
+    const flip1 = settings.vegasBirdieFlip && birdie(t2) && !birdie(t1);
+    const flip2 = settings.vegasBirdieFlip && birdie(t1) && !birdie(t2);
+    const n1 = vegasNumber(a1, b1, flip1);
+    const n2 = vegasNumber(a2, b2, flip2);
+
+    explain.bestScore = Math.min(n1, n2);
+    if (n1 === n2) {
+      explain.status = "tied";
+      return;
+    }
+    explain.multiplier = Math.abs(n1 - n2);
+    explain.stake = toCents(settings.wager) * explain.multiplier;
+    explain.status = "won";
+    explain.winningTeam = n1 < n2 ? "T1" : "T2";
+    explain.winners = n1 < n2 ? t1 : t2;
+    payPot(deltas[hi], explain.winners, n1 < n2 ? t2 : t1, explain.stake);
+  });
+
+  return { deltas, totals: sumTotals(deltas, active.length), activeIds: active.map((p) => p.id), explanations };
+}
+
+function VegasSettings({ settings, setSettings }: SettingsPanelProps) {
+  return (
+    <div className="flex justify-between"><span>Birdie Flips Opponents</span><Toggle checked={settings.vegasBirdieFlip} onChange={(v) => setSettings({ ...settings, vegasBirdieFlip: v })} /></div>
+  );
+}
+
+export const vegas: GameFormat = {
+  id: "vegas",
+  name: "Vegas",
+  wagerLabel: "Wager / Point ($)",
+  usesTeamPicks: true,
+  compute: computeVegas,
+  SettingsPanel: VegasSettings,
+};
@@ -0,0 +1,122 @@
+import React from "react";
+import { activePlayers, HoleState, Player } from "../match";
+import { toCents } from "../money";
+import {
+  bestOf,
+  effectivePar,
+  HoleExplanation,
+  newExplanation,
+  payPot,
+  scoreGrid,
+  ScoringResult,
+  sumTotals,
+} from "../scoring";
+import { Label, NumberField, Select } from "../ui";
+import { FormatInput, GameFormat, HoleInputsProps, SettingsPanelProps } from "./types";
+
+export const LONE_WOLF = "lone";
+
+// The wolf rotates through the named players in order, one hole each
+export function wolfFor(holeIndex: number, active: Player[]): Player | null {
+  return active.length ? active[holeIndex % active.length] : null;
+}
+
+// Partner's player id, LONE_WOLF, or null while the wolf is still deciding
+export function wolfPartner(hole: HoleState): string | null {
+  const v = hole.extras.wolfPartner;
+  return typeof v === "string" && v !== "" ? v : null;
+}
+
+// Wolf (plus partner) against the rest on best ball. Going alone multiplies
+// the stake by wolfLoneMultiplier. Ties push.
+export function computeWolf({ holes, settings, players }: FormatInput): ScoringResult {
+  const active = activePlayers(players);
+  const grid = scoreGrid(holes, settings, active);
+  const deltas = holes.map(() => Array(active.length).fill(0));
+  const explanations: HoleExplanation[] = [];
+
+  holes.forEach((hole, hi) => {
+    const explain = newExplanation(effectivePar(hole.par));
+    explanations.push(explain);
+    if (active.length < 3) {
+      explain.status = "no-contest";
+      return;
+    }
+
+    const partner = wolfPartner(hole);
+    if (partner === null) return;
+    const wolfSide = [wolfFor(hi, active)!.id, partner];
+    const pack: number[] = [];
+    const rest: number[] = [];
+    active.forEach((p, aj) => (wolfSide.includes(p.id) ? pack : rest).push(aj));
+
+    const bestWolf = bestOf(grid.play[hi], pack);
+    const bestRest = bestOf(grid.play[hi], rest);
+    if (!Number.isFinite(bestWolf) || !Number.isFinite(bestRest)) return;
+    explain.bestScore = Math.min(bestWolf, bestRest);
+    if (bestWolf === bestRest) {
+      explain.status = "tied";
+      return;
+    }
+
+    explain.multiplier = partner === LONE_WOLF ? settings.wolfLoneMultiplier : 1;
+    explain.stake = toCents(settings.wager) * explain.multiplier;
+    explain.status = "won";
+    explain.winners = bestWolf < bestRest ? pack : rest;
+    payPot(deltas[hi], explain.winners, bestWolf < bestRest ? rest : pack, explain.stake);
+  });
+
+  return { deltas, totals: sumTotals(deltas, active.length), activeIds: active.map((p) => p.id), explanations };
+}
+
+function WolfSettings({ settings, setSettings }: SettingsPanelProps) {
+  return (
+    <div>
+      <Label>Lone Wolf Multiplier</Label>
+      <NumberField
+        value={settings.wolfLoneMultiplier}
+        min={1}
+        onChange={(v) => setSettings({ ...settings, wolfLoneMultiplier: v === "" ? 1 : Number(v) })}
+      />
+    </div>
+  );
+}
+
+function WolfHoleInputs({ holeIndex, hole, players, onUpdate }: HoleInputsProps) {
+  const active = activePlayers(players);
+  const wolf = wolfFor(holeIndex, active);
+  if (!wolf) return null;
+  const partner = wolfPartner(hole);
+
+  return (
+    <div className="mb-4 flex items-center justify-between">
+      <span>
+        🐺 <span className="font-medium">{wolf.name}</span> partners
+      </span>
+      <Select
+        value={partner ?? ""}
+        onChange={(v) => {
+          const extras = { ...hole.extras };
+          if (v === "") delete extras.wolfPartner;
+          else extras.wolfPartner = v;
+          onUpdate({ ...hole, extras });
+        }}
+        options={[
+          { label: "Choose…", value: "" },
+          ...active.filter((p) => p.id !== wolf.id).map((p) => ({ label: p.name, value: p.id })),
+          { label: "Lone wolf", value: LONE_WOLF },
+        ]}
+      />
+    </div>
+  );
+}
+
+export const wolf: GameFormat = {
+  id: "wolf",
+  name: "Wolf",
+  wagerLabel: "Wager / Hole ($)",
+  usesTeamPicks: false,
+  compute: computeWolf,
+  SettingsPanel: WolfSettings,
+  HoleInputs: WolfHoleInputs,
+};
@@ -0,0 +1,48 @@
+import { newHole } from "./match";
+import { playingHandicap, strokeOrder, strokesPerHole, strokeTable } from "./handicap";
+
+// Holes rated 1..n in the given order
+function course(strokeIndexes: (number | "")[]) {
+  return strokeIndexes.map((strokeIndex) => ({ ...newHole(), strokeIndex }));
+}
+
+const EIGHTEEN = course([7, 3, 15, 1, 11, 17, 5, 13, 9, 8, 4, 16, 2, 12, 18, 6, 14, 10]);
+
+test("playingHandicap applies the allowance and rounds", () => {
+  expect(playingHandicap(22, 100)).toBe(22);
+  expect(playingHandicap(22, 80)).toBe(18);
+  expect(playingHandicap(9, 75)).toBe(7);
+  expect(playingHandicap("", 100)).toBe(0);
+  expect(playingHandicap(-2, 100)).toBe(-2);
+});
+
+test("strokeOrder ranks by stroke index, unrated holes last", () => {
+  expect(strokeOrder(course([3, "", 1, 2, ""]))).toEqual([2, 3, 0, 1, 4]);
+});
+
+test("an 8 gets one stroke on the eight hardest holes", () => {
+  const strokes = strokesPerHole(EIGHTEEN, 8);
+  expect(strokes.reduce((a, b) => a + b, 0)).toBe(8);
+  EIGHTEEN.forEach((h, hi) => expect(strokes[hi]).toBe((h.strokeIndex as number) <= 8 ? 1 : 0));
+});
+
+test("a 22 wraps: two strokes on the four hardest holes", () => {
+  const strokes = strokesPerHole(EIGHTEEN, 22);
+  expect(strokes.reduce((a, b) => a + b, 0)).toBe(22);
+  EIGHTEEN.forEach((h, hi) => expect(strokes[hi]).toBe((h.strokeIndex as number) <= 4 ? 2 : 1));
+});
+
+test("a plus 2 gives strokes back on the two easiest holes", () => {
+  const strokes = strokesPerHole(EIGHTEEN, -2);
+  expect(strokes.reduce((a, b) => a + b, 0)).toBe(-2);
+  expect(strokes[14]).toBe(-1); // SI 18
+  expect(strokes[5]).toBe(-1); // SI 17
+});
+
+test("strokeTable is indexed [hole][player]", () => {
+  const table = strokeTable(course([2, 1]), [1, "", 4], 100);
+  expect(table).toEqual([
+    [0, 0, 2],
+    [1, 0, 2],
+  ]);
+});
@@ -0,0 +1,42 @@
+import { HoleState } from "./match";
+
+// Handicap after the allowance (e.g. 80% of a 22 → 18). Plus handicaps stay negative.
+export function playingHandicap(handicap: number | "", allowance: number): number {
+  if (handicap === "" || !Number.isFinite(handicap)) return 0;
+  return Math.round((handicap * allowance) / 100);
+}
+
+// Order in which holes receive strokes: by stroke index, then hole number.
+// Holes with no stroke index come last, so an unrated course still allocates sensibly.
+export function strokeOrder(holes: HoleState[]): number[] {
+  const si = (hi: number) => {
+    const v = holes[hi].strokeIndex;
+    return typeof v === "number" && v > 0 ? v : Infinity;
+  };
+  return holes.map((_, hi) => hi).sort((a, b) => si(a) - si(b) || a - b);
+}
+
+// Strokes received on each hole for one playing handicap. Strokes wrap around
+// the course (a 22 on 18 holes gets 2 on the four hardest, 1 elsewhere); plus
+// handicaps give strokes back starting from the easiest hole.
+export function strokesPerHole(holes: HoleState[], handicap: number): number[] {
+  const n = holes.length;
+  const out = Array(n).fill(0);
+  if (n === 0 || handicap === 0) return out;
+
+  const order = strokeOrder(holes);
+  const abs = Math.abs(handicap);
+  const base = Math.floor(abs / n);
+  const extra = abs % n;
+  order.forEach((hi, rank) => {
+    const bonus = handicap > 0 ? rank < extra : rank >= n - extra;
+    out[hi] = Math.sign(handicap) * (base + (bonus ? 1 : 0));
+  });
+  return out;
+}
+
+// [hole][player slot] strokes received, after the allowance
+export function strokeTable(holes: HoleState[], handicaps: (number | "")[], allowance: number): number[][] {
+  const perPlayer = handicaps.map((h) => strokesPerHole(holes, playingHandicap(h, allowance)));
+  return holes.map((_, hi) => perPlayer.map((row) => row[hi]));
+}
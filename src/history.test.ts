@@ -0,0 +1,71 @@
+import { MatchState, newMatch } from "./match";
+import { archiveRound, indexedDbRoundStore, memoryRoundStore, normalizeRound, seasons, seasonStandings } from "./history";
+import { newProfile } from "./roster";
+
+function round(names: string[], totals: number[], when: string) {
+  const match: MatchState = newMatch();
+  match.players = names.map((name, i) => ({ id: `p${i + 1}`, name, handicap: "" }));
+  const activeIds = match.players.map((p) => p.id);
+  return archiveRound(match, { activeIds, deltas: [totals], totals }, new Date(when));
+}
+
+const rounds = [
+  round(["Ann", "Bob", "Cy"], [300, -100, -200], "2025-09-01T12:00:00"),
+  round(["ann", "Bob"], [-50, 50], "2026-05-01T12:00:00"),
+  round(["Bob", "Dee"], [-400, 400], "2026-06-01T12:00:00"),
+];
+
+test("standings add up each season by player name", () => {
+  expect(seasons(rounds)).toEqual([2026, 2025]);
+  expect(seasonStandings(rounds, 2026)).toEqual([
+    { name: "Dee", rounds: 1, cents: 400 },
+    { name: "ann", rounds: 1, cents: -50 },
+    { name: "Bob", rounds: 2, cents: -350 },
+  ]);
+  expect(seasonStandings(rounds).find((s) => s.name === "Ann")).toEqual({ name: "Ann", rounds: 2, cents: 250 });
+});
+
+test("standings follow the roster profile, whatever name was typed", () => {
+  const dave = { ...newProfile("David"), nickname: "Dave" };
+  const linked = round(["Dave", "Eve"], [500, -500], "2026-07-01T12:00:00");
+  linked.match.players[0].profileId = dave.id;
+  const typed = round(["dave ", "Eve"], [-200, 200], "2026-07-02T12:00:00");
+  const renamed = round(["Big D", "Eve"], [100, -100], "2026-07-03T12:00:00");
+  renamed.match.players[0].profileId = dave.id;
+
+  expect(seasonStandings([linked, typed, renamed], 2026, [dave])).toEqual([
+    { name: "Dave", rounds: 3, cents: 400 },
+    { name: "Eve", rounds: 3, cents: -400 },
+  ]);
+});
+
+test("the memory store lists newest first", async () => {
+  const store = memoryRoundStore();
+  for (const r of rounds) await store.put(r);
+  await store.remove(rounds[2].id);
+  expect((await store.list()).map((r) => r.id)).toEqual([rounds[1].id, rounds[0].id]);
+});
+
+test("a failed database open is tried again on the next call", async () => {
+  let opens = 0;
+  const factory = {
+    open: () => {
+      opens += 1;
+      const req: Partial<IDBOpenDBRequest> = { error: new DOMException("blocked") };
+      setTimeout(() => req.onerror?.call(req as IDBOpenDBRequest, new Event("error")));
+      return req;
+    },
+  } as unknown as IDBFactory;
+  const store = indexedDbRoundStore(factory);
+  await expect(store.list()).rejects.toThrow("blocked");
+  await expect(store.list()).rejects.toThrow("blocked");
+  expect(opens).toBe(2);
+});
+
+test("stored rounds are validated and their match normalized", () => {
+  const { match, ...rest } = rounds[0];
+  const { courseName, ...oldMatch } = match;
+  expect(normalizeRound({ ...rest, match: oldMatch })?.match.courseName).toBe("");
+  expect(normalizeRound({ ...rest, match, totals: ["x"] })).toBeNull();
+  expect(normalizeRound(null)).toBeNull();
+});
@@ -0,0 +1,161 @@
+import { isRecord, MatchState } from "./match";
+import { normalizeMatch } from "./matchStorage";
+import { PressResult } from "./scoring";
+import { Profile, whoIs } from "./roster";
+
+// ---------- Types ----------
+// A finished round, frozen as it was scored. The results are kept rather
+// than recomputed so later rule changes don't rewrite old money.
+export type ArchivedRound = {
+  id: string;
+  finishedAt: string;               // ISO timestamp
+  match: MatchState;
+  activeIds: string[];
+  deltas: number[][];               // cents, [hole][active player]
+  totals: number[];                 // cents, by active player
+  notes: string[];
+  presses: PressResult[];
+};
+
+export type Standing = {
+  name: string;
+  rounds: number;
+  cents: number;
+};
+
+// Where finished rounds live. Async so IndexedDB fits behind it.
+export interface RoundStore {
+  list(): Promise<ArchivedRound[]>;  // newest first
+  put(round: ArchivedRound): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export function archiveRound(
+  match: MatchState,
+  result: { activeIds: string[]; deltas: number[][]; totals: number[]; notes?: string[]; presses?: PressResult[] },
+  now = new Date()
+): ArchivedRound {
+  return {
+    id: "r" + now.getTime().toString(36) + Math.random().toString(36).slice(2, 7),
+    finishedAt: now.toISOString(),
+    match: { ...match, screen: "ledger" },
+    activeIds: result.activeIds,
+    deltas: result.deltas,
+    totals: result.totals,
+    notes: result.notes ?? [],
+    presses: result.presses ?? [],
+  };
+}
+
+// ---------- Standings ----------
+export function seasonOf(round: ArchivedRound): number {
+  return new Date(round.finishedAt).getFullYear();
+}
+
+// Seasons with rounds in them, latest first
+export function seasons(rounds: ArchivedRound[]): number[] {
+  return Array.from(new Set(rounds.map(seasonOf))).sort((a, b) => b - a);
+}
+
+// Money by player across a season (every round when `season` is omitted).
+// Players are matched by roster profile, else by name regardless of case
+// and spacing, so "bob" and "Bob " are one player.
+export function seasonStandings(rounds: ArchivedRound[], season?: number, roster: Profile[] = []): Standing[] {
+  const byPlayer = new Map<string, Standing>();
+  for (const r of rounds) {
+    if (season !== undefined && seasonOf(r) !== season) continue;
+    r.activeIds.forEach((id, i) => {
+      const player = r.match.players.find((p) => p.id === id);
+      if (!player) return;
+      const { key, name } = whoIs(player, roster);
+      const s = byPlayer.get(key) ?? { name, rounds: 0, cents: 0 };
+      s.rounds += 1;
+      s.cents += r.totals[i] ?? 0;
+      byPlayer.set(key, s);
+    });
+  }
+  return Array.from(byPlayer.values()).sort((a, b) => b.cents - a.cents || a.name.localeCompare(b.name));
+}
+
+// ---------- Stores ----------
+const isCentsRow = (v: unknown): v is number[] => Array.isArray(v) && v.every((n) => typeof n === "number");
+const isPress = (v: unknown): v is PressResult =>
+  isRecord(v) && typeof v.label === "string" && typeof v.summary === "string" && isCentsRow(v.amounts);
+
+// Rounds saved by older versions get their match brought up to date
+export function normalizeRound(raw: unknown): ArchivedRound | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.finishedAt !== "string") return null;
+  const match = normalizeMatch(raw.match);
+  if (!match || !isCentsRow(raw.totals) || !Array.isArray(raw.deltas) || !raw.deltas.every(isCentsRow)) return null;
+  return {
+    id: raw.id,
+    finishedAt: raw.finishedAt,
+    match,
+    activeIds: Array.isArray(raw.activeIds) ? raw.activeIds.filter((id: unknown) => typeof id === "string") : [],
+    deltas: raw.deltas,
+    totals: raw.totals,
+    notes: Array.isArray(raw.notes) ? raw.notes.filter((n: unknown) => typeof n === "string") : [],
+    presses: Array.isArray(raw.presses) ? raw.presses.filter(isPress) : [],
+  };
+}
+
+const newestFirst = (a: ArchivedRound, b: ArchivedRound) => b.finishedAt.localeCompare(a.finishedAt);
+
+// Keeps rounds for the session only; used in tests and where IndexedDB is missing
+export function memoryRoundStore(initial: ArchivedRound[] = []): RoundStore {
+  const rounds = new Map(initial.map((r) => [r.id, r]));
+  return {
+    list: async () => Array.from(rounds.values()).sort(newestFirst),
+    put: async (round) => {
+      rounds.set(round.id, round);
+    },
+    remove: async (id) => {
+      rounds.delete(id);
+    },
+  };
+}
+
+const DB_NAME = "sideBets";
+const DB_VERSION = 1;
+const ROUNDS = "rounds";
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function indexedDbRoundStore(factory: IDBFactory = indexedDB, name = DB_NAME): RoundStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      const req = factory.open(name, DB_VERSION);
+      req.onupgradeneeded = () => req.result.createObjectStore(ROUNDS, { keyPath: "id" });
+      // A failed open isn't kept, so the next call tries again
+      db = done(req).catch((e) => {
+        db = null;
+        throw e;
+      });
+    }
+    return db;
+  };
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(ROUNDS, mode).objectStore(ROUNDS);
+
+  return {
+    list: async () => {
+      const raw: unknown[] = await done((await store("readonly")).getAll());
+      return raw.map(normalizeRound).filter((r): r is ArchivedRound => r !== null).sort(newestFirst);
+    },
+    put: async (round) => {
+      await done((await store("readwrite")).put(round));
+    },
+    remove: async (id) => {
+      await done((await store("readwrite")).delete(id));
+    },
+  };
+}
+
+export function defaultRoundStore(): RoundStore {
+  return typeof indexedDB === "undefined" ? memoryRoundStore() : indexedDbRoundStore();
+}
@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { appUpdates, registerServiceWorker } from './pwa';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -13,6 +14,12 @@ root.render(
   </React.StrictMode>
 );
 
+// Offline support in production builds only; in development the service
+// worker would keep serving stale code
+if (process.env.NODE_ENV === 'production') {
+  window.addEventListener('load', () => registerServiceWorker(appUpdates));
+}
+
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
 // or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
@@ -0,0 +1,88 @@
+import { HoleState, JunkBet, newHole, Player, removePlayerFromHoles } from "./match";
+import { computeJunk, dotKey, dotProblem, dotsOf, JUNK_PRESETS, junkFor, normalizeJunkBets, parseDotKey, tapDot } from "./junk";
+
+const PLAYERS: Player[] = ["A", "B", "C", "D"].map((name, i) => ({ id: `p${i + 1}`, name, handicap: "" }));
+const preset = (id: string) => JUNK_PRESETS.find((b) => b.id === id)!;
+const GREENIE = preset("greenie");
+const POLIE = preset("polie");
+const THREE_PUTT = preset("threePutt");
+
+function hole(par: number, scores: Record<string, number> = {}, dots: Record<string, number> = {}): HoleState {
+  const extras: HoleState["extras"] = {};
+  for (const [k, n] of Object.entries(dots)) {
+    const [bet, player] = k.split(" ");
+    extras[dotKey(bet, player)] = n;
+  }
+  return { ...newHole(), par, scores, extras };
+}
+
+const junkOf = (holes: HoleState[], junkBets: JunkBet[], players = PLAYERS) =>
+  computeJunk({ holes, settings: { junkBets }, players });
+
+test("dot keys round-trip and ignore other extras", () => {
+  expect(parseDotKey(dotKey("greenie", "p2"))).toEqual({ betId: "greenie", playerId: "p2" });
+  expect(parseDotKey("wolfPartner")).toBeNull();
+  expect(parseDotKey("dot:greenie")).toBeNull();
+});
+
+test("tapping adds dots and wraps back to none", () => {
+  let h = newHole();
+  h = tapDot(h, POLIE, "p1");
+  h = tapDot(h, POLIE, "p1");
+  expect(dotsOf(h, "polie", "p1")).toBe(2);
+  h = tapDot(tapDot(h, POLIE, "p1"), POLIE, "p1");
+  expect(dotsOf(h, "polie", "p1")).toBe(0);
+  expect(h.extras).toEqual({});
+});
+
+test("a one-per-hole dot moves to whoever was tapped", () => {
+  const h = tapDot(tapDot(hole(3), GREENIE, "p1"), GREENIE, "p3");
+  expect(dotsOf(h, "greenie", "p1")).toBe(0);
+  expect(dotsOf(h, "greenie", "p3")).toBe(1);
+});
+
+test("greenies are only open on par 3s and need par", () => {
+  expect(junkFor(hole(4), [GREENIE, POLIE])).toEqual([POLIE]);
+  expect(dotProblem(hole(3, { p1: 3 }), GREENIE, "p1")).toBeNull();
+  expect(dotProblem(hole(3, { p1: 4 }), GREENIE, "p1")).toBe("needs par, made 4");
+  expect(dotProblem(hole(3), GREENIE, "p1")).toBe("needs a score");
+  expect(dotProblem(hole(5), GREENIE, "p1")).toBe("only on par 3s");
+  expect(dotProblem(hole(5), POLIE, "p1")).toBeNull();
+});
+
+test("each dot collects from every other player; penalties pay out", () => {
+  const holes = [
+    hole(3, { p1: 3 }, { "greenie p1": 1 }),
+    hole(4, {}, { "polie p2": 2, "threePutt p4": 1 }),
+  ];
+  const result = junkOf(holes, [GREENIE, POLIE, { ...THREE_PUTT, value: 0.5 }]);
+  expect(result.deltas).toEqual([
+    [300, -100, -100, -100],
+    [-150, 650, -150, -350],
+  ]);
+  expect(result.columns.map((c) => [c.name, c.amounts])).toEqual([
+    ["Greenie", [300, -100, -100, -100]],
+    ["Polie", [-200, 600, -200, -200]],
+    ["Three-putt", [50, 50, 50, -150]],
+  ]);
+  expect(result.totals).toEqual([150, 550, -250, -450]);
+  expect(result.totals.reduce((a, b) => a + b, 0)).toBe(0);
+});
+
+test("dots that don't count are noted and pay nothing", () => {
+  const result = junkOf([hole(3, { p2: 5 }, { "greenie p2": 1 })], [GREENIE]);
+  expect(result.totals).toEqual([0, 0, 0, 0]);
+  expect(result.notes).toEqual(["H1 B's greenie doesn't count: needs par, made 5"]);
+});
+
+test("dots for a removed player go with them", () => {
+  const [h] = removePlayerFromHoles([hole(4, {}, { "polie p2": 1, "polie p3": 1 })], "p2");
+  expect(h.extras).toEqual({ [dotKey("polie", "p3")]: 1 });
+});
+
+test("stored catalogues are cleaned up", () => {
+  expect(normalizeJunkBets("nope")).toBeNull();
+  expect(
+    normalizeJunkBets([GREENIE, { ...GREENIE, name: "Again" }, { id: "bad id", value: 1 }, { id: "x", value: -1 }, { id: "ok", value: 2 }])
+  ).toEqual([GREENIE, { id: "ok", name: "", value: 2, penalty: false, par3Only: false, needsPar: false, onePerHole: false }]);
+});
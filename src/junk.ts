@@ -0,0 +1,156 @@
+import { activePlayers, HoleState, JunkBet, Player, Settings } from "./match";
+import { toCents } from "./money";
+import { countedScore, effectivePar } from "./scoring";
+
+// ---------- Catalogue ----------
+// The usual junk, offered as one-tap additions in setup
+export const JUNK_PRESETS: JunkBet[] = [
+  { id: "greenie", name: "Greenie", value: 1, penalty: false, par3Only: true, needsPar: true, onePerHole: true },
+  { id: "sandy", name: "Sandy", value: 1, penalty: false, par3Only: false, needsPar: true, onePerHole: false },
+  { id: "barkie", name: "Barkie", value: 1, penalty: false, par3Only: false, needsPar: true, onePerHole: false },
+  { id: "polie", name: "Polie", value: 1, penalty: false, par3Only: false, needsPar: false, onePerHole: false },
+  { id: "threePutt", name: "Three-putt", value: 1, penalty: true, par3Only: false, needsPar: false, onePerHole: false },
+];
+
+export const MAX_DOTS = 3;          // per bet, player and hole; tapping again clears
+
+export function newJunkBet(): JunkBet {
+  return {
+    id: "j" + Date.now().toString(36) + Math.random().toString(36).slice(2, 5),
+    name: "",
+    value: 1,
+    penalty: false,
+    par3Only: false,
+    needsPar: false,
+    onePerHole: false,
+  };
+}
+
+// ---------- Dots ----------
+// Dots live in HoleState.extras as "dot:<bet id>:<player id>" → count, so
+// they sync, save and undo like any other per-hole input
+const DOT = "dot";
+
+export function dotKey(betId: string, playerId: string): string {
+  return `${DOT}:${betId}:${playerId}`;
+}
+
+export function parseDotKey(key: string): { betId: string; playerId: string } | null {
+  const [prefix, betId, playerId, ...rest] = key.split(":");
+  return prefix === DOT && betId && playerId && rest.length === 0 ? { betId, playerId } : null;
+}
+
+export function dotsOf(hole: HoleState, betId: string, playerId: string): number {
+  const v = hole.extras[dotKey(betId, playerId)];
+  return typeof v === "number" && v > 0 ? Math.floor(v) : 0;
+}
+
+// One more dot, wrapping back to none. A one-per-hole bet goes to whoever
+// was tapped last.
+export function tapDot(hole: HoleState, bet: JunkBet, playerId: string): HoleState {
+  const max = bet.onePerHole ? 1 : MAX_DOTS;
+  const next = (dotsOf(hole, bet.id, playerId) + 1) % (max + 1);
+  const extras = { ...hole.extras };
+  if (bet.onePerHole) {
+    for (const key of Object.keys(extras)) if (parseDotKey(key)?.betId === bet.id) delete extras[key];
+  }
+  if (next === 0) delete extras[dotKey(bet.id, playerId)];
+  else extras[dotKey(bet.id, playerId)] = next;
+  return { ...hole, extras };
+}
+
+// Bets that can be won on this hole
+export function junkFor(hole: HoleState, bets: JunkBet[]): JunkBet[] {
+  return bets.filter((b) => !b.par3Only || effectivePar(hole.par) === 3);
+}
+
+// Why a player's dots on this hole don't pay, or null if they do
+export function dotProblem(hole: HoleState, bet: JunkBet, playerId: string): string | null {
+  const par = effectivePar(hole.par);
+  if (bet.par3Only && par !== 3) return "only on par 3s";
+  if (!bet.needsPar) return null;
+  const score = countedScore(hole, playerId);
+  if (score === null) return "needs a score";
+  return score > par ? `needs par, made ${score}` : null;
+}
+
+// ---------- Payouts ----------
+export type JunkColumn = {
+  betId: string;
+  name: string;
+  amounts: number[];                // [active player], in cents
+};
+
+export type JunkResult = {
+  columns: JunkColumn[];            // one per bet in the catalogue
+  deltas: number[][];               // [hole][active player], in cents
+  totals: number[];                 // [active player], in cents
+  notes: string[];                  // dots that didn't pay, and why
+};
+
+// Each dot collects the bet's value from every other active player; a
+// penalty dot pays it to each of them instead. Dots on blank slots or
+// that fail the bet's conditions don't pay.
+export function computeJunk({
+  holes,
+  settings,
+  players,
+}: {
+  holes: HoleState[];
+  settings: Pick<Settings, "junkBets">;
+  players: Player[];
+}): JunkResult {
+  const active = activePlayers(players);
+  const n = active.length;
+  const zeros = () => active.map(() => 0);
+  const columns = settings.junkBets.map((b) => ({ betId: b.id, name: b.name.trim() || "Junk", amounts: zeros() }));
+  const deltas = holes.map(zeros);
+  const notes: string[] = [];
+
+  holes.forEach((hole, hi) => {
+    settings.junkBets.forEach((bet, bi) => {
+      active.forEach((p, aj) => {
+        const dots = dotsOf(hole, bet.id, p.id);
+        if (dots === 0 || n < 2) return;
+        const problem = dotProblem(hole, bet, p.id);
+        if (problem) {
+          notes.push(`H${hi + 1} ${p.name}'s ${columns[bi].name.toLowerCase()} doesn't count: ${problem}`);
+          return;
+        }
+        const each = toCents(bet.value) * dots * (bet.penalty ? -1 : 1);
+        for (let k = 0; k < n; k++) {
+          const c = k === aj ? each * (n - 1) : -each;
+          deltas[hi][k] += c;
+          columns[bi].amounts[k] += c;
+        }
+      });
+    });
+  });
+
+  const totals = active.map((_, k) => columns.reduce((sum, col) => sum + col.amounts[k], 0));
+  return { columns, deltas, totals, notes };
+}
+
+// ---------- Validation ----------
+export function normalizeJunkBet(raw: unknown): JunkBet | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const b = raw as Record<string, unknown>;
+  if (typeof b.id !== "string" || !/^[A-Za-z0-9_-]+$/.test(b.id)) return null;
+  if (typeof b.value !== "number" || !Number.isFinite(b.value) || b.value < 0) return null;
+  return {
+    id: b.id,
+    name: typeof b.name === "string" ? b.name : "",
+    value: b.value,
+    penalty: b.penalty === true,
+    par3Only: b.par3Only === true,
+    needsPar: b.needsPar === true,
+    onePerHole: b.onePerHole === true,
+  };
+}
+
+// Drops broken rows and repeated ids (the first one wins)
+export function normalizeJunkBets(raw: unknown): JunkBet[] | null {
+  if (!Array.isArray(raw)) return null;
+  const bets = raw.map(normalizeJunkBet).filter((b): b is JunkBet => b !== null);
+  return bets.filter((b, i) => bets.findIndex((x) => x.id === b.id) === i);
+}
@@ -0,0 +1,42 @@
+import { dropsScores, HoleState, newHole, removePlayerFromHoles, repeatHoles, resizeHoles } from "./match";
+
+function course(pars: number[], strokeIndex: number[] = []): HoleState[] {
+  return pars.map((par, i) => ({ ...newHole(), par, strokeIndex: strokeIndex[i] ?? "" }));
+}
+
+test("resizing keeps entered holes and pads with new ones", () => {
+  const holes = course([3, 4, 5]);
+  holes[1].scores = { p1: 4 };
+  expect(resizeHoles(holes, 2)).toEqual(holes.slice(0, 2));
+  const grown = resizeHoles(holes, 5);
+  expect(grown).toHaveLength(5);
+  expect(grown[1].scores).toEqual({ p1: 4 });
+  expect(grown[4]).toEqual(newHole());
+  expect(resizeHoles(holes, 0)).toHaveLength(1);
+
+  expect(dropsScores(holes, 1)).toBe(true);
+  expect(dropsScores(holes, 2)).toBe(false);
+  holes[2].scores = { p1: "" };
+  expect(dropsScores(holes, 2)).toBe(false);
+});
+
+test("a loop played twice repeats pars and interleaves stroke indexes", () => {
+  const nine = course([4, 3, 5], [2, 3, 1]);
+  nine[0].scores = { p1: 5 };
+  const round = repeatHoles(nine);
+  expect(round.map((h) => h.par)).toEqual([4, 3, 5, 4, 3, 5]);
+  expect(round.map((h) => h.strokeIndex)).toEqual([3, 5, 1, 4, 6, 2]);
+  expect(round[0].scores).toEqual({ p1: 5 });
+  expect(round[3].scores).toEqual({});
+});
+
+test("removing a player clears their picks, scores and references", () => {
+  const [hole] = course([4]);
+  hole.teamPicks = { p1: "T1", p2: "T2" };
+  hole.scores = { p1: 4, p2: 5 };
+  hole.extras = { wolfPartner: "p2", note: "x" };
+  const [after] = removePlayerFromHoles([hole], "p2");
+  expect(after.teamPicks).toEqual({ p1: "T1" });
+  expect(after.scores).toEqual({ p1: 4 });
+  expect(after.extras).toEqual({ note: "x" });
+});
@@ -0,0 +1,211 @@
+// ---------- Types ----------
+export type TeamPick = "T1" | "T2" | "Sit";
+
+export type ScoreBasis = "gross" | "net";
+
+// What happens to a carry still open after the last hole
+export type FinalCarry = "playoff" | "split" | "void";
+
+export type FormatId = "bestBall" | "nassau" | "skins" | "wolf" | "vegas";
+
+// A house rule that multiplies a hole's stake. Score rules compare the
+// winning ball with par (`toPar` -1 = birdie), optionally only on holes of
+// one par; hole rules always apply to their hole ("the 18th is double").
+export type MultiplierRule =
+  | { kind: "score"; toPar: number; orBetter: boolean; par: number | ""; multiplier: number }
+  | { kind: "holeInOne"; multiplier: number }
+  | { kind: "hole"; hole: number; multiplier: number };   // hole is 1-based
+
+// A "junk" side game paid per dot, apart from the format's bet: greenies,
+// sandies and the like. Penalties (three-putts) pay out instead of collecting.
+export type JunkBet = {
+  id: string;                       // no "." or ":"; it's part of the per-hole dot key
+  name: string;
+  value: number;                    // dollars per dot, from each other player
+  penalty: boolean;
+  par3Only: boolean;                // greenies: par 3s only
+  needsPar: boolean;                // the dot only pays if the player makes par or better
+  onePerHole: boolean;              // closest to the pin: one player per hole
+};
+
+export type Settings = {
+  format: FormatId;
+  wager: number;                    // base unit; each format says what it buys
+  carryOver: boolean;
+  soloDouble: boolean;
+  multiplierRules: MultiplierRule[];
+  multipliersStack: boolean;        // multipliers compound with carry and solo (off = biggest one wins)
+  netScoring: boolean;              // compare net scores for the team best ball
+  handicapAllowance: number;        // percent of each handicap used (100 = full)
+  multiplierBasis: ScoreBasis;      // which score decides score-rule multipliers
+  junkBets: JunkBet[];              // dot games played alongside the format (empty = none)
+  nassauAutoPress: number;          // Nassau: new press when a side goes this many down (0 = off)
+  bestBallPresses: boolean;         // Best ball: allow press / double-down side bets
+  bestBallAutoPress: number;        // Best ball: new press when a side goes this many holes down (0 = off)
+  bestBallSecondBall: boolean;      // Best ball: a team tie goes to the better second-best ball
+  bestBallTieSplit: boolean;        // Best ball: tied low balls in a single-team hole share the winnings
+  bestBallFinalCarry: FinalCarry;   // Best ball: carry left after the last hole
+  wolfLoneMultiplier: number;       // Wolf: stake multiplier when the wolf goes alone
+  vegasBirdieFlip: boolean;         // Vegas: a birdie flips the other side's number
+};
+
+// Players are stable entities; everything per-player is keyed by id, so
+// renaming, reordering or removing one never shifts anyone else's data.
+export type Player = {
+  id: string;
+  name: string;                     // blank = empty slot, not playing
+  handicap: number | "";
+  profileId?: string;               // their roster profile, once picked from or saved to the roster
+};
+
+export type HoleState = {
+  par: number | "";                 // allow empty while editing on mobile
+  strokeIndex: number | "";         // 1 = hardest hole; blank = unrated
+  yardage: number | "";             // from the tee being played; blank = unknown
+  teamPicks: Record<string, TeamPick>;   // by player id; missing = "Sit"
+  scores: Record<string, number | "">;   // by player id; missing = no score
+  extras: Record<string, number | string | boolean>;  // format-specific per-hole inputs
+};
+
+// An extra bet riding on the same scores as the main game, between some of
+// the group, with its own format, wager and rules. Its per-hole inputs
+// (sides, wolf partners, presses) are its own, kept in the hole's extras.
+export type Bet = {
+  id: string;                       // no "." or ":"; it's part of the per-hole extras keys
+  name: string;
+  playerIds: string[];              // who's in, by player id
+  settings: Settings;               // junkBets unused: junk belongs to the match
+};
+
+export type Screen = "setup" | "play" | "ledger" | "settle" | "history";
+
+// Everything needed to pick a round back up where it was left
+export type MatchState = {
+  players: Player[];
+  settings: Settings;
+  holes: HoleState[];
+  screen: Screen;
+  activeHole: number;
+  courseName: string;               // as loaded from the course library; blank if typed in
+  bets: Bet[];                      // side bets besides the main game (`settings`)
+};
+
+// ---------- Defaults ----------
+export const HOLE_COUNT = 18;
+export const MAX_HOLES = 72;
+export const MAX_PLAYERS = 12;
+
+export const DEFAULT_SETTINGS: Settings = {
+  format: "bestBall",
+  wager: 1,
+  carryOver: true,
+  soloDouble: false,
+  multiplierRules: [
+    { kind: "score", toPar: -1, orBetter: false, par: "", multiplier: 2 },
+    { kind: "score", toPar: -2, orBetter: true, par: "", multiplier: 3 },
+  ],
+  multipliersStack: true,
+  netScoring: false,
+  handicapAllowance: 100,
+  multiplierBasis: "gross",
+  junkBets: [],
+  nassauAutoPress: 2,
+  bestBallPresses: false,
+  bestBallAutoPress: 2,
+  bestBallSecondBall: false,
+  bestBallTieSplit: false,
+  bestBallFinalCarry: "void",
+  wolfLoneMultiplier: 2,
+  vegasBirdieFlip: true,
+};
+
+export function newHole(): HoleState {
+  return {
+    par: 4,
+    strokeIndex: "",
+    yardage: "",
+    teamPicks: {},
+    scores: {},
+    extras: {},
+  };
+}
+
+export function newPlayerId(): string {
+  return "p" + Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+}
+
+export function newPlayer(name = ""): Player {
+  return { id: newPlayerId(), name, handicap: "" };
+}
+
+// Named players in roster order; blank slots sit out
+export function activePlayers(players: Player[]): Player[] {
+  return players.filter((p) => p.name.trim() !== "");
+}
+
+export function playerNames(players: Player[], ids: string[]): string[] {
+  return ids.map((id) => players.find((p) => p.id === id)?.name ?? "");
+}
+
+export function pickOf(hole: HoleState, id: string): TeamPick {
+  return hole.teamPicks[id] ?? "Sit";
+}
+
+export function scoreOf(hole: HoleState, id: string): number | "" {
+  return hole.scores[id] ?? "";
+}
+
+export function newMatch(): MatchState {
+  return {
+    players: ["A", "B", "C", "D"].map((name) => newPlayer(name)),
+    settings: { ...DEFAULT_SETTINGS },
+    holes: Array.from({ length: HOLE_COUNT }, newHole),
+    screen: "setup",
+    activeHole: 0,
+    courseName: "",
+    bets: [],
+  };
+}
+
+// ---------- Round shape ----------
+// Grow or shrink the round to `count` holes, keeping everything already entered
+export function resizeHoles(holes: HoleState[], count: number): HoleState[] {
+  const n = Math.max(1, Math.min(MAX_HOLES, Math.floor(count)));
+  return Array.from({ length: n }, (_, hi) => holes[hi] ?? newHole());
+}
+
+// Whether cutting the round to `count` holes throws away an entered score
+export function dropsScores(holes: HoleState[], count: number): boolean {
+  return holes.slice(count).some((h) => Object.values(h.scores).some((score) => typeof score === "number"));
+}
+
+// Play the same loop again, e.g. a nine played twice. Pars repeat and the
+// repeats start blank. Stroke indexes are re-rated so the loops interleave:
+// on a nine played twice, SI 1 becomes 1 going out and 2 coming home.
+export function repeatHoles(holes: HoleState[], times = 2): HoleState[] {
+  return Array.from({ length: times }, (_, loop) =>
+    holes.map((h): HoleState => ({
+      ...(loop === 0 ? h : newHole()),
+      par: h.par,
+      strokeIndex: typeof h.strokeIndex === "number" ? (h.strokeIndex - 1) * times + loop + 1 : "",
+      yardage: h.yardage,
+    }))
+  ).flat();
+}
+
+// Drop a player's picks, scores and any per-hole extra that points at them
+// or is kept for them (junk dots end in ":<player id>")
+export function removePlayerFromHoles(holes: HoleState[], id: string): HoleState[] {
+  return holes.map((h) => {
+    const { [id]: _pick, ...teamPicks } = h.teamPicks;
+    const { [id]: _score, ...scores } = h.scores;
+    const extras = Object.fromEntries(Object.entries(h.extras).filter(([k, v]) => v !== id && !k.endsWith(`:${id}`)));
+    return { ...h, teamPicks, scores, extras };
+  });
+}
+
+// ---------- Parsing ----------
+// A plain object from storage, a file or the wire; each field still needs checking
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
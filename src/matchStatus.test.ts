@@ -0,0 +1,60 @@
+import { DEFAULT_SETTINGS, MultiplierRule, Settings } from "./match";
+import { bestBallWorth, describeSideStatus, sideStatus, skinsWorth, totalsThrough } from "./matchStatus";
+import { HoleExplanation, newExplanation } from "./scoring";
+
+const BIRDIE: MultiplierRule = { kind: "score", toPar: -1, orBetter: false, par: "", multiplier: 2 };
+const EAGLE: MultiplierRule = { kind: "score", toPar: -2, orBetter: true, par: "", multiplier: 3 };
+
+const settings = (over: Partial<Settings> = {}): Settings => ({ ...DEFAULT_SETTINGS, multiplierRules: [BIRDIE, EAGLE], ...over });
+
+const won = (winningTeam: "T1" | "T2"): HoleExplanation => ({ ...newExplanation(4), status: "won", winningTeam });
+const tied = (): HoleExplanation => ({ ...newExplanation(4), status: "tied" });
+
+test("running totals stop at the current hole", () => {
+  const deltas = [
+    [100, -100],
+    [-200, 200],
+    [500, -500],
+  ];
+  expect(totalsThrough(deltas, 0)).toEqual([100, -100]);
+  expect(totalsThrough(deltas, 1)).toEqual([-100, 100]);
+  expect(totalsThrough([], 0)).toEqual([]);
+});
+
+test("a hole is worth its carry, with the score rules on top", () => {
+  const worth = bestBallWorth(4, newExplanation(4, 1), settings());
+  expect(worth).toEqual({
+    base: 200,
+    carried: 100,
+    upside: [
+      { label: "Birdie", cents: 400 },
+      { label: "Eagle or better", cents: 600 },
+    ],
+  });
+});
+
+test("hole rules count now; rules for other pars and non-stacking carries are handled", () => {
+  const eighteenth: MultiplierRule = { kind: "hole", hole: 18, multiplier: 2 };
+  const par3Birdie: MultiplierRule = { ...BIRDIE, par: 3, multiplier: 5 };
+  expect(bestBallWorth(17, newExplanation(4), settings({ multiplierRules: [BIRDIE, eighteenth, par3Birdie] }))).toEqual({
+    base: 200,
+    carried: 0,
+    upside: [{ label: "Birdie", cents: 400 }],
+  });
+
+  const flat = bestBallWorth(0, newExplanation(4, 2), settings({ multipliersStack: false }));
+  expect(flat.base).toBe(300);
+  expect(flat.upside.map((u) => u.cents)).toEqual([400, 500]);
+});
+
+test("a skin is worth itself plus any carried", () => {
+  expect(skinsWorth(newExplanation(3, 2), settings({ wager: 2 }))).toEqual({ base: 600, carried: 400, upside: [] });
+});
+
+test("sides are up or down by holes won so far", () => {
+  const played = [won("T1"), tied(), won("T1"), won("T2"), won("T2"), won("T2")];
+  expect(sideStatus(played, 2)).toEqual({ t1: 2, t2: 0, through: 3 });
+  expect(describeSideStatus(sideStatus(played, 2))).toBe("T1 2 up");
+  expect(describeSideStatus(sideStatus(played, 4))).toBe("All square");
+  expect(describeSideStatus(sideStatus(played, 5))).toBe("T2 1 up");
+});
@@ -0,0 +1,61 @@
+import { Settings } from "./match";
+import { toCents } from "./money";
+import { describeRule, holeMultiplier, stakeUnits } from "./multipliers";
+import { HoleExplanation } from "./scoring";
+
+// ---------- Types ----------
+// What winning a hole pays per unit before anyone has holed out, and what
+// the score rules could lift it to
+export type HoleWorth = {
+  base: number;                     // cents
+  carried: number;                  // cents of that riding in from earlier ties
+  upside: { label: string; cents: number }[];
+};
+
+// Holes won by each side over the holes played so far (match play)
+export type SideStatus = { t1: number; t2: number; through: number };
+
+// ---------- Running totals ----------
+// Each player's money over holes 0..`hi`, the current hole as it stands
+export function totalsThrough(deltas: number[][], hi: number): number[] {
+  const totals = (deltas[0] ?? []).map(() => 0);
+  deltas.slice(0, hi + 1).forEach((row) => row.forEach((c, aj) => (totals[aj] += c)));
+  return totals;
+}
+
+// ---------- Hole worth ----------
+// Best ball: carry and the hole's own multiplier count now; each score rule
+// open on this par is listed with what the hole would pay if it's made.
+// Solo = Double isn't included, since it depends on how the sides line up.
+export function bestBallWorth(hi: number, explanation: HoleExplanation, settings: Settings): HoleWorth {
+  const wager = toCents(settings.wager);
+  const hole = holeMultiplier(hi, settings.multiplierRules);
+  const units = (score: number) =>
+    stakeUnits({ carryUnits: explanation.carryUnits, score, solo: 1, hole }, settings);
+  const upside = settings.multiplierRules
+    .filter((r) => r.kind === "holeInOne" || (r.kind === "score" && (r.par === "" || r.par === explanation.par)))
+    .map((r) => ({ label: describeRule(r), cents: wager * units(r.multiplier) }))
+    .filter((u) => u.cents > wager * units(1))
+    .sort((a, b) => a.cents - b.cents);
+  return { base: wager * units(1), carried: wager * explanation.carryUnits, upside };
+}
+
+// Skins: the skin plus any carried with it
+export function skinsWorth(explanation: HoleExplanation, settings: Settings): HoleWorth {
+  const wager = toCents(settings.wager);
+  return { base: wager * (1 + explanation.carryUnits), carried: wager * explanation.carryUnits, upside: [] };
+}
+
+// ---------- Side status ----------
+// For team formats: holes won by T1 and T2 through hole `hi`
+export function sideStatus(explanations: HoleExplanation[], hi: number): SideStatus {
+  const won = (team: "T1" | "T2") =>
+    explanations.slice(0, hi + 1).filter((e) => e.status === "won" && e.winningTeam === team).length;
+  return { t1: won("T1"), t2: won("T2"), through: hi + 1 };
+}
+
+// "T1 2 up", "All square"
+export function describeSideStatus({ t1, t2 }: SideStatus): string {
+  if (t1 === t2) return "All square";
+  return t1 > t2 ? `T1 ${t1 - t2} up` : `T2 ${t2 - t1} up`;
+}
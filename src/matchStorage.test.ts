@@ -0,0 +1,118 @@
+import { newMatch } from "./match";
+import {
+  clearMatch,
+  isMatchStarted,
+  loadMatch,
+  MATCH_SCHEMA_VERSION,
+  MATCH_STORAGE_KEY,
+  migrateMatch,
+  saveMatch,
+} from "./matchStorage";
+
+beforeEach(() => localStorage.clear());
+
+test("round-trips a match through localStorage", () => {
+  const match = newMatch();
+  match.holes[0].scores[match.players[0].id] = 5;
+  match.screen = "play";
+  match.activeHole = 11;
+  saveMatch(match);
+
+  const stored = loadMatch();
+  expect(stored?.version).toBe(MATCH_SCHEMA_VERSION);
+  expect(stored?.match).toEqual(match);
+});
+
+test("returns null for missing, corrupt or future data", () => {
+  expect(loadMatch()).toBeNull();
+  localStorage.setItem(MATCH_STORAGE_KEY, "{not json");
+  expect(loadMatch()).toBeNull();
+  localStorage.setItem(
+    MATCH_STORAGE_KEY,
+    JSON.stringify({ version: MATCH_SCHEMA_VERSION + 1, match: newMatch() })
+  );
+  expect(loadMatch()).toBeNull();
+});
+
+test("fills fields added since the match was saved", () => {
+  const { settings, ...rest } = newMatch();
+  const { soloDouble, ...oldSettings } = settings;
+  const old = { ...rest, settings: oldSettings, holes: [{ par: 3 }] };
+
+  const match = migrateMatch(MATCH_SCHEMA_VERSION, old);
+  expect(match?.settings.soloDouble).toBe(false);
+  expect(match?.holes[0]).toEqual({
+    par: 3,
+    strokeIndex: "",
+    yardage: "",
+    teamPicks: {},
+    scores: {},
+    extras: {},
+  });
+});
+
+test("side bets keep only players still in the match", () => {
+  const match = newMatch();
+  const [a, b] = match.players.map((p) => p.id);
+  const bet = { id: "b1", name: "A v B", playerIds: [a, "gone", b, a], settings: { format: "skins", wager: 2, junkBets: [{ id: "x", value: 1 }] } };
+
+  const migrated = migrateMatch(MATCH_SCHEMA_VERSION, { ...match, bets: [bet, { ...bet, name: "again" }, { name: "no id" }] });
+  expect(migrated?.bets).toHaveLength(1);
+  expect(migrated?.bets[0].playerIds).toEqual([a, b]);
+  expect(migrated?.bets[0].settings).toMatchObject({ format: "skins", wager: 2, carryOver: true, junkBets: [] });
+
+  const { bets, ...older } = match;
+  expect(migrateMatch(MATCH_SCHEMA_VERSION, older)?.bets).toEqual([]);
+});
+
+test("only started matches are offered for resume", () => {
+  const match = newMatch();
+  expect(isMatchStarted(match)).toBe(false);
+  expect(isMatchStarted({ ...match, screen: "history" })).toBe(false);
+  match.holes[3].scores[match.players[1].id] = 4;
+  expect(isMatchStarted(match)).toBe(true);
+
+  saveMatch(match);
+  clearMatch();
+  expect(loadMatch()).toBeNull();
+});
+
+test("migrates v2 birdie and eagle toggles to multiplier rules", () => {
+  const { settings, ...rest } = newMatch();
+  const { multiplierRules, multipliersStack, ...v3 } = settings;
+  const v2 = { ...rest, settings: { ...v3, birdieDouble: true, eagleTriple: false } };
+
+  const match = migrateMatch(2, v2);
+  expect(match?.settings.multiplierRules).toEqual([{ kind: "score", toPar: -1, orBetter: false, par: "", multiplier: 2 }]);
+  expect(match?.settings.multipliersStack).toBe(true);
+  expect(match?.settings).not.toHaveProperty("birdieDouble");
+});
+
+test("migrates v1 slot arrays to player ids", () => {
+  const v1 = {
+    players: ["A", "", "C"],
+    handicaps: [8, "", 22],
+    settings: {},
+    holes: [
+      {
+        par: 4,
+        teamPicks: ["T1", "Sit", "T2"],
+        scores: [5, "", 4],
+        extras: { wolfPartner: 2 },
+      },
+    ],
+    screen: "play",
+    activeHole: 0,
+  };
+  localStorage.setItem(MATCH_STORAGE_KEY, JSON.stringify({ version: 1, savedAt: "", match: v1 }));
+
+  const match = loadMatch()?.match;
+  expect(match?.players).toEqual([
+    { id: "p1", name: "A", handicap: 8 },
+    { id: "p2", name: "", handicap: "" },
+    { id: "p3", name: "C", handicap: 22 },
+  ]);
+  expect(match?.holes[0].teamPicks).toEqual({ p1: "T1", p2: "Sit", p3: "T2" });
+  expect(match?.holes[0].scores).toEqual({ p1: 5, p3: 4 });
+  expect(match?.holes[0].extras).toEqual({ wolfPartner: "p3" });
+});
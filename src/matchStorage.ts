@@ -0,0 +1,233 @@
+import {
+  Bet,
+  DEFAULT_SETTINGS,
+  FinalCarry,
+  FormatId,
+  HoleState,
+  isRecord,
+  MatchState,
+  MultiplierRule,
+  newHole,
+  Player,
+  ScoreBasis,
+  Screen,
+  Settings,
+  TeamPick,
+} from "./match";
+import { normalizeJunkBets } from "./junk";
+import { normalizeRules } from "./multipliers";
+
+// ---------- Schema ----------
+export const MATCH_STORAGE_KEY = "currentMatch";
+export const MATCH_SCHEMA_VERSION = 3;
+
+export type StoredMatch = {
+  version: number;
+  savedAt: string;                  // ISO timestamp
+  match: MatchState;
+};
+
+// MIGRATIONS[n] upgrades a stored `match` payload from version n to n + 1.
+// Bump MATCH_SCHEMA_VERSION and add an entry whenever the shape changes in a
+// way normalizeMatch can't paper over (renames, moved data). Fields that are
+// simply new get their default from normalizeMatch.
+const MIGRATIONS: Record<number, (match: unknown) => unknown> = {
+  // v1 → v2: players were bare names in fixed slots, with handicaps, picks
+  // and scores in parallel arrays. Give each slot an id and key by it.
+  1: (m) => {
+    if (!isRecord(m)) return m;
+    const names: unknown[] = Array.isArray(m.players) ? m.players : [];
+    const ids = names.map((_, i) => `p${i + 1}`);
+    const byId = (arr: unknown) => {
+      const out: Record<string, unknown> = {};
+      if (Array.isArray(arr)) ids.forEach((id, i) => (out[id] = arr[i]));
+      return out;
+    };
+    const handicaps: unknown[] = Array.isArray(m.handicaps) ? m.handicaps : [];
+    return {
+      ...m,
+      players: names.map((name, i) => ({ id: ids[i], name, handicap: handicaps[i] })),
+      holes: Array.isArray(m.holes)
+        ? m.holes.map((raw: unknown) => {
+            const h = isRecord(raw) ? raw : {};
+            const extras = isRecord(h.extras) ? { ...h.extras } : {};
+            const partner = extras.wolfPartner;
+            if (typeof partner === "number") extras.wolfPartner = partner < 0 ? "lone" : ids[partner] ?? "";
+            return { ...h, teamPicks: byId(h.teamPicks), scores: byId(h.scores), extras };
+          })
+        : m.holes,
+    };
+  },
+  // v2 → v3: the Birdie = Double and Eagle = Triple toggles became rows in
+  // the multiplier rules table. Missing toggles were on by default.
+  2: (m) => {
+    if (!isRecord(m) || !isRecord(m.settings)) return m;
+    const { birdieDouble, eagleTriple, ...settings } = m.settings;
+    const rules: MultiplierRule[] = [];
+    if (birdieDouble !== false) rules.push({ kind: "score", toPar: -1, orBetter: false, par: "", multiplier: 2 });
+    if (eagleTriple !== false) rules.push({ kind: "score", toPar: -2, orBetter: true, par: "", multiplier: 3 });
+    return { ...m, settings: { ...settings, multiplierRules: rules } };
+  },
+};
+
+const SCREENS: Screen[] = ["setup", "play", "ledger", "settle", "history"];
+const PICKS: TeamPick[] = ["T1", "T2", "Sit"];
+const BASES: ScoreBasis[] = ["gross", "net"];
+const FORMATS: FormatId[] = ["bestBall", "nassau", "skins", "wolf", "vegas"];
+const FINAL_CARRIES: FinalCarry[] = ["playoff", "split", "void"];
+
+function oneOf<T>(allowed: readonly T[], v: unknown): v is T {
+  return (allowed as readonly unknown[]).includes(v);
+}
+
+// Stored values of the same primitive kind as the setting's default are taken
+function sameKind<T>(v: unknown, like: T): v is T {
+  return typeof v === typeof like;
+}
+
+function takeSetting<K extends keyof Settings>(settings: Settings, raw: Record<string, unknown>, key: K) {
+  const v = raw[key];
+  if (sameKind(v, DEFAULT_SETTINGS[key])) settings[key] = v;
+}
+
+function normalizePlayer(raw: unknown, i: number): Player {
+  const p = isRecord(raw) ? raw : {};
+  return {
+    id: typeof p.id === "string" && p.id !== "" ? p.id : `p${i + 1}`,
+    name: typeof p.name === "string" ? p.name : "",
+    handicap: typeof p.handicap === "number" && Number.isFinite(p.handicap) ? p.handicap : "",
+    ...(typeof p.profileId === "string" && p.profileId !== "" ? { profileId: p.profileId } : {}),
+  };
+}
+
+function normalizeHole(raw: unknown, ids: string[]): HoleState {
+  const base = newHole();
+  const h = isRecord(raw) ? raw : {};
+  const par = typeof h.par === "number" || h.par === "" ? h.par : base.par;
+  const strokeIndex = typeof h.strokeIndex === "number" ? h.strokeIndex : base.strokeIndex;
+  const yardage = typeof h.yardage === "number" ? h.yardage : base.yardage;
+  const teamPicks: HoleState["teamPicks"] = {};
+  const scores: HoleState["scores"] = {};
+  for (const id of ids) {
+    const pick = isRecord(h.teamPicks) ? h.teamPicks[id] : undefined;
+    const score = isRecord(h.scores) ? h.scores[id] : undefined;
+    if (oneOf(PICKS, pick)) teamPicks[id] = pick;
+    if (typeof score === "number" && Number.isFinite(score)) scores[id] = score;
+  }
+  const extras: HoleState["extras"] = {};
+  if (isRecord(h.extras)) {
+    for (const [k, v] of Object.entries(h.extras)) {
+      if (typeof v === "number" || typeof v === "string" || typeof v === "boolean") extras[k] = v;
+    }
+  }
+  return {
+    par,
+    strokeIndex,
+    yardage,
+    teamPicks,
+    scores,
+    extras,
+  };
+}
+
+function normalizeSettings(raw: unknown): Settings {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (!isRecord(raw)) return settings;
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) takeSetting(settings, raw, key);
+  if (!BASES.includes(settings.multiplierBasis)) settings.multiplierBasis = DEFAULT_SETTINGS.multiplierBasis;
+  if (!FORMATS.includes(settings.format)) settings.format = DEFAULT_SETTINGS.format;
+  if (!FINAL_CARRIES.includes(settings.bestBallFinalCarry)) settings.bestBallFinalCarry = DEFAULT_SETTINGS.bestBallFinalCarry;
+  settings.multiplierRules = normalizeRules(raw.multiplierRules) ?? DEFAULT_SETTINGS.multiplierRules;
+  settings.junkBets = normalizeJunkBets(raw.junkBets) ?? DEFAULT_SETTINGS.junkBets;
+  return settings;
+}
+
+// Players no longer in the match drop out of the bet
+function normalizeBet(raw: unknown, ids: string[]): Bet | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || !/^[A-Za-z0-9_-]+$/.test(raw.id)) return null;
+  const playerIds = Array.isArray(raw.playerIds) ? raw.playerIds.filter((id: unknown): id is string => typeof id === "string" && ids.includes(id)) : [];
+  return {
+    id: raw.id,
+    name: typeof raw.name === "string" ? raw.name : "",
+    playerIds: Array.from(new Set<string>(playerIds)),
+    settings: { ...normalizeSettings(raw.settings), junkBets: [] },
+  };
+}
+
+// Coerce a (migrated) payload into a valid MatchState, filling anything
+// missing with defaults. Returns null if it is beyond repair.
+export function normalizeMatch(raw: unknown): MatchState | null {
+  if (!isRecord(raw)) return null;
+  if (!Array.isArray(raw.players) || !Array.isArray(raw.holes) || raw.holes.length === 0) return null;
+
+  const players: Player[] = raw.players.map(normalizePlayer);
+  if (new Set(players.map((p) => p.id)).size !== players.length) return null;
+  const settings = normalizeSettings(raw.settings);
+  const ids = players.map((p) => p.id);
+  const holes = raw.holes.map((h: unknown) => normalizeHole(h, ids));
+  const screen = oneOf(SCREENS, raw.screen) ? raw.screen : "setup";
+  const activeHole =
+    typeof raw.activeHole === "number" && raw.activeHole >= 0 && raw.activeHole < holes.length
+      ? Math.floor(raw.activeHole)
+      : 0;
+  const courseName = typeof raw.courseName === "string" ? raw.courseName : "";
+  const bets = (Array.isArray(raw.bets) ? raw.bets : [])
+    .map((b: unknown) => normalizeBet(b, ids))
+    .filter((b: Bet | null, i: number, all: (Bet | null)[]): b is Bet => b !== null && all.findIndex((x) => x?.id === b.id) === i);
+
+  return { players, settings, holes, screen, activeHole, courseName, bets };
+}
+
+// Run every migration between `version` and the current schema.
+export function migrateMatch(version: number, match: unknown): MatchState | null {
+  if (!Number.isInteger(version) || version < 1 || version > MATCH_SCHEMA_VERSION) return null;
+  let data = match;
+  for (let v = version; v < MATCH_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) return null;
+    data = step(data);
+  }
+  return normalizeMatch(data);
+}
+
+// ---------- Storage ----------
+export function loadMatch(storage: Storage = localStorage): StoredMatch | null {
+  const raw = storage.getItem(MATCH_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!isRecord(parsed) || typeof parsed.version !== "number") return null;
+    const match = migrateMatch(parsed.version, parsed.match);
+    if (!match) return null;
+    return {
+      version: MATCH_SCHEMA_VERSION,
+      savedAt: typeof parsed.savedAt === "string" ? parsed.savedAt : "",
+      match,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveMatch(match: MatchState, storage: Storage = localStorage) {
+  const stored: StoredMatch = {
+    version: MATCH_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    match,
+  };
+  try {
+    storage.setItem(MATCH_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Quota exceeded or storage disabled (private mode) — nothing we can do
+  }
+}
+
+export function clearMatch(storage: Storage = localStorage) {
+  storage.removeItem(MATCH_STORAGE_KEY);
+}
+
+// A match is worth offering to resume once play has begun or a score exists.
+// Browsing history between rounds doesn't count.
+export function isMatchStarted(match: MatchState) {
+  return !["setup", "history"].includes(match.screen) || match.holes.some((h) => Object.values(h.scores).some((s) => s !== ""));
+}
@@ -0,0 +1,36 @@
+import { formatCents, formatDecimal, splitCents, toCents } from "./money";
+
+test.each<[number, number, number[]]>([
+  [300, 3, [100, 100, 100]],
+  [100, 3, [34, 33, 33]],
+  [5, 4, [2, 1, 1, 1]],
+  [-100, 3, [-34, -33, -33]],
+  [0, 2, [0, 0]],
+])("splitCents(%i, %i)", (total, n, expected) => {
+  const shares = splitCents(total, n);
+  expect(shares).toEqual(expected);
+  expect(shares.reduce((a, b) => a + b, 0)).toBe(total);
+});
+
+test("splitCents into no shares is empty", () => {
+  expect(splitCents(7, 0)).toEqual([]);
+});
+
+test("toCents rounds to the nearest cent", () => {
+  expect(toCents(0.5)).toBe(50);
+  expect(toCents(0.1 + 0.2)).toBe(30);
+  expect(toCents(1.005)).toBe(100);
+  expect(toCents(NaN)).toBe(0);
+});
+
+test("formatCents", () => {
+  expect(formatCents(0)).toBe("$0");
+  expect(formatCents(150)).toBe("+$1.50");
+  expect(formatCents(-33)).toBe("-$0.33");
+});
+
+test("formatDecimal", () => {
+  expect(formatDecimal(0)).toBe("0.00");
+  expect(formatDecimal(150)).toBe("1.50");
+  expect(formatDecimal(-33)).toBe("-0.33");
+});
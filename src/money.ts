@@ -0,0 +1,34 @@
+// All money is carried as integer cents; dollars only appear at the edges
+// (the wager input and formatted output).
+
+export function toCents(dollars: number): number {
+  return Number.isFinite(dollars) ? Math.round(dollars * 100) : 0;
+}
+
+// Split `total` cents into `n` integer shares that sum exactly to `total`.
+// Remainder pennies go to the earliest shares, so the split is deterministic
+// and follows player order.
+export function splitCents(total: number, n: number): number[] {
+  if (n <= 0) return [];
+  const sign = total < 0 ? -1 : 1;
+  const abs = Math.abs(total);
+  const base = Math.floor(abs / n);
+  const extra = abs - base * n;
+  return Array.from({ length: n }, (_, i) => sign * (base + (i < extra ? 1 : 0)));
+}
+
+// "+$1.50", "-$0.33" or "$0"
+export function formatCents(cents: number): string {
+  if (cents === 0) return "$0";
+  return (cents > 0 ? "+$" : "-$") + (Math.abs(cents) / 100).toFixed(2);
+}
+
+// Unsigned, always two decimals: "$1.50"
+export function formatDollars(cents: number): string {
+  return "$" + (Math.abs(cents) / 100).toFixed(2);
+}
+
+// Signed decimal for spreadsheets: "1.50", "-0.33", "0.00"
+export function formatDecimal(cents: number): string {
+  return (cents < 0 ? "-" : "") + (Math.abs(cents) / 100).toFixed(2);
+}
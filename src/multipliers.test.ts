@@ -0,0 +1,56 @@
+import { MultiplierRule } from "./match";
+import { describeRule, holeMultiplier, MULTIPLIER_PRESETS, normalizeRules, scoreMultiplier, stakeUnits } from "./multipliers";
+
+const preset = (label: string) => MULTIPLIER_PRESETS.find((p) => p.label === label)!.rule;
+
+test("describes rules for the settings table", () => {
+  expect(MULTIPLIER_PRESETS.map((p) => describeRule(p.rule))).toEqual([
+    "Birdie",
+    "Eagle or better",
+    "Albatross or better",
+    "Birdie on par 3s",
+    "Hole-in-one",
+    "Hole 18",
+  ]);
+});
+
+test("score rules match exactly unless marked or better", () => {
+  const rules = [preset("Birdie 2x")];
+  expect(scoreMultiplier(3, 4, rules)).toBe(2);
+  expect(scoreMultiplier(2, 4, rules)).toBe(1);
+  expect(scoreMultiplier(2, 4, [preset("Eagle 3x")])).toBe(3);
+  expect(scoreMultiplier(1, 4, [preset("Eagle 3x")])).toBe(3);
+});
+
+test("a hole-in-one is an ace on any par", () => {
+  const rules = [preset("Hole-in-one jackpot")];
+  expect(scoreMultiplier(1, 3, rules)).toBe(10);
+  expect(scoreMultiplier(1, 4, rules)).toBe(10);
+  expect(scoreMultiplier(2, 3, rules)).toBe(1);
+});
+
+test("per-hole rules are 1-based", () => {
+  const rules = [preset("18th double")];
+  expect(holeMultiplier(17, rules)).toBe(2);
+  expect(holeMultiplier(16, rules)).toBe(1);
+});
+
+test("stacking compounds; not stacking takes the biggest", () => {
+  const parts = { carryUnits: 2, score: 2, solo: 2, hole: 3 };
+  expect(stakeUnits(parts, { multipliersStack: true })).toBe(36);
+  expect(stakeUnits(parts, { multipliersStack: false })).toBe(5);
+  expect(stakeUnits({ carryUnits: 0, score: 1, solo: 1, hole: 1 }, { multipliersStack: false })).toBe(1);
+});
+
+test("drops rules that can't be used", () => {
+  const rules = normalizeRules([
+    { kind: "score", toPar: -1, multiplier: 2, par: 9 },
+    { kind: "score", toPar: -1.5, multiplier: 2 },
+    { kind: "hole", hole: 0, multiplier: 2 },
+    { kind: "holeInOne", multiplier: -1 },
+    { kind: "jackpot", multiplier: 5 },
+    "birdie",
+  ]);
+  expect(rules).toEqual<MultiplierRule[]>([{ kind: "score", toPar: -1, orBetter: false, par: 9, multiplier: 2 }]);
+  expect(normalizeRules("nope")).toBeNull();
+});
@@ -0,0 +1,75 @@
+import { MultiplierRule, Settings } from "./match";
+
+// ---------- Presets ----------
+// Common house rules, offered as one-tap additions to the rules table
+export const MULTIPLIER_PRESETS: { label: string; rule: MultiplierRule }[] = [
+  { label: "Birdie 2x", rule: { kind: "score", toPar: -1, orBetter: false, par: "", multiplier: 2 } },
+  { label: "Eagle 3x", rule: { kind: "score", toPar: -2, orBetter: true, par: "", multiplier: 3 } },
+  { label: "Albatross 4x", rule: { kind: "score", toPar: -3, orBetter: true, par: "", multiplier: 4 } },
+  { label: "Par-3 birdie 3x", rule: { kind: "score", toPar: -1, orBetter: false, par: 3, multiplier: 3 } },
+  { label: "Hole-in-one jackpot", rule: { kind: "holeInOne", multiplier: 10 } },
+  { label: "18th double", rule: { kind: "hole", hole: 18, multiplier: 2 } },
+];
+
+const TO_PAR_NAMES: Record<number, string> = { 0: "Par", [-1]: "Birdie", [-2]: "Eagle", [-3]: "Albatross" };
+
+// "Eagle or better on par 5s", "Hole 18"
+export function describeRule(rule: MultiplierRule): string {
+  if (rule.kind === "holeInOne") return "Hole-in-one";
+  if (rule.kind === "hole") return `Hole ${rule.hole}`;
+  const name = TO_PAR_NAMES[rule.toPar] ?? `${rule.toPar > 0 ? "+" : ""}${rule.toPar} to par`;
+  return `${name}${rule.orBetter ? " or better" : ""}${rule.par === "" ? "" : ` on par ${rule.par}s`}`;
+}
+
+// ---------- Matching ----------
+// The biggest score rule the winning ball earns; 1 if none
+export function scoreMultiplier(best: number, par: number, rules: MultiplierRule[]): number {
+  const rel = best - par;
+  return rules.reduce((m, r) => {
+    const hit =
+      r.kind === "holeInOne"
+        ? best === 1
+        : r.kind === "score" && (r.par === "" || r.par === par) && (r.orBetter ? rel <= r.toPar : rel === r.toPar);
+    return hit ? Math.max(m, r.multiplier) : m;
+  }, 1);
+}
+
+// Per-hole override for hole index `hi`; 1 if none
+export function holeMultiplier(hi: number, rules: MultiplierRule[]): number {
+  return rules.reduce((m, r) => (r.kind === "hole" && r.hole === hi + 1 ? Math.max(m, r.multiplier) : m), 1);
+}
+
+// Units of wager a won hole is worth. Stacking multiplies everything
+// together; otherwise the biggest multiplier applies to the hole's own unit
+// and carried units ride along at face value.
+export function stakeUnits(
+  { carryUnits, score, solo, hole }: { carryUnits: number; score: number; solo: number; hole: number },
+  settings: Pick<Settings, "multipliersStack">
+): number {
+  if (settings.multipliersStack) return (1 + carryUnits) * score * solo * hole;
+  return carryUnits + Math.max(score, solo, hole);
+}
+
+// ---------- Validation ----------
+const isMultiplier = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v > 0;
+
+export function normalizeRule(raw: unknown): MultiplierRule | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const r = raw as Record<string, unknown>;
+  if (!isMultiplier(r.multiplier)) return null;
+  const multiplier = r.multiplier;
+  if (r.kind === "holeInOne") return { kind: "holeInOne", multiplier };
+  if (r.kind === "hole") {
+    return Number.isInteger(r.hole) && (r.hole as number) >= 1 ? { kind: "hole", hole: r.hole as number, multiplier } : null;
+  }
+  if (r.kind === "score" && Number.isInteger(r.toPar)) {
+    const par = typeof r.par === "number" && Number.isInteger(r.par) && r.par >= 3 ? r.par : "";
+    return { kind: "score", toPar: r.toPar as number, orBetter: r.orBetter === true, par, multiplier };
+  }
+  return null;
+}
+
+export function normalizeRules(raw: unknown): MultiplierRule[] | null {
+  if (!Array.isArray(raw)) return null;
+  return raw.map(normalizeRule).filter((r): r is MultiplierRule => r !== null);
+}
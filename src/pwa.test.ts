@@ -0,0 +1,72 @@
+import { createUpdateStore, registerServiceWorker } from "./pwa";
+
+function fakeWorker(state = "installing") {
+  return Object.assign(new EventTarget(), { state, postMessage: jest.fn() });
+}
+
+function fakeContainer(registration: object, controller: object | null) {
+  return Object.assign(new EventTarget(), { controller, register: jest.fn().mockResolvedValue(registration) });
+}
+
+const asWorker = (w: ReturnType<typeof fakeWorker>) => w as unknown as ServiceWorker;
+const asContainer = (c: ReturnType<typeof fakeContainer>) => c as unknown as ServiceWorkerContainer;
+
+test("a waiting build takes over and the page reloads once it controls it", () => {
+  const reload = jest.fn();
+  const container = fakeContainer({}, {});
+  const store = createUpdateStore({ reload, container: asContainer(container) });
+  const seen = jest.fn();
+  store.subscribe(seen);
+
+  const worker = fakeWorker("installed");
+  store.available(asWorker(worker));
+  expect(store.status()).toBe("available");
+  expect(seen).toHaveBeenCalledTimes(1);
+
+  store.apply();
+  expect(worker.postMessage).toHaveBeenCalledWith({ type: "SKIP_WAITING" });
+  expect(reload).not.toHaveBeenCalled();
+  container.dispatchEvent(new Event("controllerchange"));
+  expect(reload).toHaveBeenCalledTimes(1);
+});
+
+test("offline-ready doesn't hide a waiting update and can be dismissed", () => {
+  const store = createUpdateStore({ reload: jest.fn() });
+  store.offlineReady();
+  expect(store.status()).toBe("offline-ready");
+  store.dismiss();
+  expect(store.status()).toBe("none");
+
+  store.available(asWorker(fakeWorker("installed")));
+  store.offlineReady();
+  expect(store.status()).toBe("available");
+  store.apply();
+});
+
+test("a first install reports offline-ready; a later one an update", async () => {
+  const worker = fakeWorker();
+  const registration = Object.assign(new EventTarget(), { waiting: null, installing: worker, update: jest.fn() });
+
+  const first = createUpdateStore();
+  await registerServiceWorker(first, { url: "/sw.js", container: asContainer(fakeContainer(registration, null)) });
+  registration.dispatchEvent(new Event("updatefound"));
+  worker.state = "installed";
+  worker.dispatchEvent(new Event("statechange"));
+  expect(first.status()).toBe("offline-ready");
+
+  const later = createUpdateStore();
+  const waiting = fakeWorker("installed");
+  const container = fakeContainer({ ...registration, waiting, addEventListener: jest.fn() }, {});
+  await registerServiceWorker(later, { url: "/sw.js", container: asContainer(container) });
+  expect(container.register).toHaveBeenCalledWith("/sw.js");
+  expect(later.status()).toBe("available");
+});
+
+test("a failed registration is ignored", async () => {
+  const store = createUpdateStore();
+  const container = Object.assign(new EventTarget(), { controller: null, register: jest.fn().mockRejectedValue(new Error("no")) });
+  await expect(
+    registerServiceWorker(store, { container: container as unknown as ServiceWorkerContainer })
+  ).resolves.toBeUndefined();
+  expect(store.status()).toBe("none");
+});
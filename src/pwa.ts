@@ -0,0 +1,92 @@
+// ---------- Types ----------
+// "offline-ready": the first install finished, so the app now opens with no
+// signal. "available": a newer build is installed and waiting to take over.
+export type UpdateStatus = "none" | "offline-ready" | "available";
+
+export type UpdateStore = {
+  subscribe: (listener: () => void) => () => void;
+  status: () => UpdateStatus;
+  offlineReady: () => void;
+  available: (worker: ServiceWorker) => void;
+  apply: () => void;                // hand over to the waiting build, then reload
+  dismiss: () => void;
+};
+
+// ---------- Update store ----------
+// Bridges the service worker's lifecycle to the page (read it with
+// useSyncExternalStore). The container is looked up when it's needed so the
+// store can be made where there's no service worker support at all.
+export function createUpdateStore({
+  reload = () => window.location.reload(),
+  container,
+}: {
+  reload?: () => void;
+  container?: ServiceWorkerContainer;
+} = {}): UpdateStore {
+  let status: UpdateStatus = "none";
+  let waiting: ServiceWorker | null = null;
+  const listeners = new Set<() => void>();
+  const set = (next: UpdateStatus) => {
+    status = next;
+    listeners.forEach((l) => l());
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    status: () => status,
+    offlineReady: () => {
+      if (status === "none") set("offline-ready");
+    },
+    available: (worker) => {
+      waiting = worker;
+      set("available");
+    },
+    apply: () => {
+      if (!waiting) return;
+      // Reload once the new build controls the page, so it doesn't run on the old one's cache
+      (container ?? navigator.serviceWorker)?.addEventListener("controllerchange", () => reload(), { once: true });
+      waiting.postMessage({ type: "SKIP_WAITING" });
+    },
+    dismiss: () => set("none"),
+  };
+}
+
+export const appUpdates = createUpdateStore();
+
+// ---------- Registration ----------
+// Failing to register (private browsing, plain http) leaves the app working
+// online, so it's not reported.
+export async function registerServiceWorker(
+  store: UpdateStore,
+  {
+    url = `${process.env.PUBLIC_URL}/service-worker.js`,
+    container = navigator.serviceWorker,
+  }: { url?: string; container?: ServiceWorkerContainer } = {}
+): Promise<void> {
+  if (!container) return;
+  let registration: ServiceWorkerRegistration;
+  try {
+    registration = await container.register(url);
+  } catch {
+    return;
+  }
+  if (registration.waiting && container.controller) store.available(registration.waiting);
+
+  registration.addEventListener("updatefound", () => {
+    const worker = registration.installing;
+    worker?.addEventListener("statechange", () => {
+      if (worker.state !== "installed") return;
+      // With a controller an older build is running this page; without one this was the first install
+      if (container.controller) store.available(worker);
+      else store.offlineReady();
+    });
+  });
+
+  // A phone can keep the tab open all round; look for a new build whenever it comes back
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") registration.update().catch(() => undefined);
+  });
+}
@@ -0,0 +1,57 @@
+import { Player } from "./match";
+import {
+  findProfile,
+  identityKey,
+  loadRoster,
+  newProfile,
+  playerFromProfile,
+  playerKey,
+  rememberPlayers,
+  renamePlayer,
+  ROSTER_STORAGE_KEY,
+  saveRoster,
+} from "./roster";
+
+beforeEach(() => localStorage.clear());
+
+const dave = { ...newProfile("David Smith"), nickname: "Dave", handicap: 12, payHandle: "@dave-s" };
+const player = (name: string, extra: Partial<Player> = {}): Player => ({ id: "p1", name, handicap: "", ...extra });
+
+test("names match whatever the case and spacing", () => {
+  expect(identityKey("  Dave ")).toBe("dave");
+  expect(identityKey("David   SMITH")).toBe("david smith");
+  expect(findProfile([dave], "dave ")).toBe(dave);
+  expect(findProfile([dave], "david  smith")).toBe(dave);
+  expect(findProfile([dave], "Davey")).toBeUndefined();
+  expect(findProfile([{ ...dave, nickname: "" }], "")).toBeUndefined();
+});
+
+test("a player is keyed by their profile, else by name", () => {
+  expect(playerKey(player("Big D", { profileId: dave.id }))).toBe(dave.id);
+  expect(playerKey(player("DAVE"), [dave])).toBe(dave.id);
+  expect(playerKey(player("Ann "))).toBe(playerKey(player("ann")));
+});
+
+test("picking a regular brings their nickname and handicap", () => {
+  const p = playerFromProfile(dave);
+  expect(p).toMatchObject({ name: "Dave", handicap: 12, profileId: dave.id });
+  expect(renamePlayer(p, "Ann", [dave])).toEqual({ id: p.id, name: "Ann", handicap: 12 });
+  expect(renamePlayer(player("Dav"), "dave", [dave]).profileId).toBe(dave.id);
+});
+
+test("finishing a round links regulars and adds newcomers", () => {
+  const { roster, players } = rememberPlayers([dave], [player("dave"), { ...player("Ann "), id: "p2", handicap: 8 }, { ...player(""), id: "p3" }]);
+  expect(roster).toHaveLength(2);
+  expect(roster[1]).toMatchObject({ name: "Ann", handicap: 8, nickname: "", payHandle: "" });
+  expect(players.map((p) => p.profileId)).toEqual([dave.id, roster[1].id, undefined]);
+  expect(rememberPlayers(roster, players).roster).toBe(roster);
+});
+
+test("the roster round-trips through storage and skips broken entries", () => {
+  saveRoster([dave]);
+  expect(loadRoster()).toEqual([dave]);
+  localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify([dave, { ...dave, name: "Again" }, { id: "x", name: " " }, "junk"]));
+  expect(loadRoster()).toEqual([dave]);
+  localStorage.setItem(ROSTER_STORAGE_KEY, "{oops");
+  expect(loadRoster()).toEqual([]);
+});
@@ -0,0 +1,118 @@
+import { isRecord, newPlayer, Player } from "./match";
+
+// ---------- Types ----------
+// Someone the group plays with, kept across rounds. Match players point
+// back at their profile, so results follow the person rather than however
+// their name was typed that day.
+export type Profile = {
+  id: string;
+  name: string;
+  nickname: string;                 // what goes on the card, when set
+  handicap: number | "";            // default for new matches; blank = none
+  payHandle: string;                // Venmo / Cash App username, for settling up
+};
+
+export const ROSTER_STORAGE_KEY = "playerRoster";
+
+export function newProfileId(): string {
+  return "u" + Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+}
+
+export function newProfile(name = ""): Profile {
+  return { id: newProfileId(), name, nickname: "", handicap: "", payHandle: "" };
+}
+
+// ---------- Identity ----------
+// "Dave", "dave " and "DAVE" are one person
+export function identityKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function displayName(p: Profile): string {
+  return p.nickname.trim() || p.name.trim();
+}
+
+// The profile a typed name belongs to, by name or nickname
+export function findProfile(roster: Profile[], name: string): Profile | undefined {
+  const key = identityKey(name);
+  if (!key) return undefined;
+  return roster.find((p) => identityKey(p.name) === key || (p.nickname.trim() !== "" && identityKey(p.nickname) === key));
+}
+
+export function profileOf(player: Player, roster: Profile[]): Profile | undefined {
+  return (player.profileId && roster.find((p) => p.id === player.profileId)) || findProfile(roster, player.name);
+}
+
+// Who a match player is across rounds: their profile when they have one,
+// else their name
+export function playerKey(player: Player, roster: Profile[] = []): string {
+  return player.profileId || profileOf(player, roster)?.id || "name:" + identityKey(player.name);
+}
+
+// The key and the name a player goes by across rounds
+export function whoIs(player: Player, roster: Profile[] = []): { key: string; name: string } {
+  const key = playerKey(player, roster);
+  const profile = roster.find((p) => p.id === key);
+  return { key, name: profile ? displayName(profile) : player.name.trim() };
+}
+
+// A typed name links the player to whoever on the roster it names, or to no one
+export function renamePlayer(player: Player, name: string, roster: Profile[]): Player {
+  const { profileId, ...rest } = player;
+  const profile = findProfile(roster, name);
+  return profile ? { ...rest, name, profileId: profile.id } : { ...rest, name };
+}
+
+// A match player for a regular, with their default handicap
+export function playerFromProfile(p: Profile): Player {
+  return { ...newPlayer(displayName(p)), handicap: p.handicap, profileId: p.id };
+}
+
+// Link each named player to their profile, adding anyone new to the roster.
+// Done when a round is finished, so the regulars build up by playing.
+export function rememberPlayers(roster: Profile[], players: Player[]): { roster: Profile[]; players: Player[] } {
+  let next = roster;
+  const linked = players.map((pl) => {
+    if (pl.name.trim() === "") return pl;
+    const found = profileOf(pl, next);
+    if (found) return found.id === pl.profileId ? pl : { ...pl, profileId: found.id };
+    const profile = { ...newProfile(pl.name.trim()), handicap: pl.handicap };
+    next = [...next, profile];
+    return { ...pl, profileId: profile.id };
+  });
+  return { roster: next, players: linked };
+}
+
+// ---------- Normalizing ----------
+const text = (v: unknown) => (typeof v === "string" ? v : "");
+
+export function normalizeProfile(raw: unknown): Profile | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || raw.id === "" || text(raw.name).trim() === "") return null;
+  return {
+    id: raw.id,
+    name: text(raw.name),
+    nickname: text(raw.nickname),
+    handicap: typeof raw.handicap === "number" && Number.isFinite(raw.handicap) ? raw.handicap : "",
+    payHandle: text(raw.payHandle),
+  };
+}
+
+// ---------- Storage ----------
+export function loadRoster(storage: Storage = localStorage): Profile[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(ROSTER_STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+    const roster = parsed.map(normalizeProfile).filter((p): p is Profile => p !== null);
+    return roster.filter((p, i) => roster.findIndex((x) => x.id === p.id) === i);
+  } catch {
+    return [];
+  }
+}
+
+export function saveRoster(roster: Profile[], storage: Storage = localStorage) {
+  try {
+    storage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(roster));
+  } catch {
+    // Quota exceeded or storage disabled
+  }
+}
@@ -0,0 +1,110 @@
+import { MatchState, playerNames, scoreOf } from "./match";
+import { BetColumn } from "./bets";
+import { JunkColumn } from "./junk";
+import { formatCents } from "./money";
+import { effectivePar, PressResult } from "./scoring";
+
+// ---------- PNG Scorecard ----------
+// Drawn straight onto a canvas so there's nothing to install: a scores grid
+// (par row, gross per hole, strokes total) above the money grid from the
+// ledger. Like the CSV, the money grid is the main game hole by hole, then a
+// column each for presses, junk and side bets, then what each player nets.
+const SCALE = 2;                    // render at 2x so it stays sharp on phones
+const PAD = 16;
+const ROW = 26;
+const NAME_W = 90;
+const HOLE_W = 40;
+const TOTAL_W = 70;
+
+type Cell = { text: string; color?: string; bold?: boolean };
+
+export function drawScorecard(
+  match: MatchState,
+  result: {
+    activeIds: string[];
+    deltas: number[][];
+    totals: number[];               // everything netted
+    presses?: PressResult[];
+    junk?: JunkColumn[];
+    bets?: BetColumn[];
+  },
+  title: string
+): HTMLCanvasElement | null {
+  const { holes, players } = match;
+  const { presses = [], junk = [], bets = [] } = result;
+  const names = playerNames(players, result.activeIds);
+  const money = (c: number): Cell => ({ text: c === 0 ? "" : formatCents(c), color: c > 0 ? "#16a34a" : c < 0 ? "#dc2626" : undefined });
+
+  const holeHeader: Cell[] = [{ text: "Hole", bold: true }, ...holes.map((_, hi) => ({ text: String(hi + 1), bold: true }))];
+  const scores: Cell[][] = [
+    [...holeHeader, { text: "Tot", bold: true }],
+    [{ text: "Par" }, ...holes.map((h) => ({ text: String(effectivePar(h.par)) })), { text: String(holes.reduce((s, h) => s + effectivePar(h.par), 0)) }],
+    ...result.activeIds.map((id, pi) => {
+      const gross = holes.map((h) => scoreOf(h, id));
+      const total = gross.reduce<number>((s, g) => s + (g === "" ? 0 : g), 0);
+      return [{ text: names[pi], bold: true }, ...gross.map((g) => ({ text: String(g) })), { text: total ? String(total) : "" }];
+    }),
+  ];
+  const columns = [
+    ...(presses.length ? [{ name: "Presses", amounts: names.map((_, pi) => presses.reduce((sum, p) => sum + p.amounts[pi], 0)) }] : []),
+    ...junk,
+    ...bets,
+  ];
+  const ledger: Cell[][] = [
+    [...holeHeader, ...columns.map((col) => ({ text: col.name, bold: true })), { text: "Net", bold: true }],
+    ...names.map((name, pi) => [
+      { text: name, bold: true },
+      ...result.deltas.map((row) => money(row[pi] ?? 0)),
+      ...columns.map((col) => money(col.amounts[pi] ?? 0)),
+      { ...money(result.totals[pi] ?? 0), bold: true },
+    ]),
+  ];
+
+  // Name, then a narrow column per hole; the money grid's extra columns are as wide as the total
+  const widths = (rows: Cell[][]) => rows[0].map((_, c) => (c === 0 ? NAME_W : c <= holes.length ? HOLE_W : TOTAL_W));
+  const scoreWidths = widths(scores);
+  const ledgerWidths = widths(ledger);
+  const sum = (ws: number[]) => ws.reduce((a, b) => a + b, 0);
+  const width = PAD * 2 + Math.max(sum(scoreWidths), sum(ledgerWidths));
+  const height = PAD * 3 + 30 + (scores.length + ledger.length) * ROW;
+  const canvas = document.createElement("canvas");
+  canvas.width = width * SCALE;
+  canvas.height = height * SCALE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.scale(SCALE, SCALE);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = "#111827";
+  ctx.font = "bold 18px sans-serif";
+  ctx.textBaseline = "middle";
+  ctx.fillText(title, PAD, PAD + 12);
+
+  const drawGrid = (rows: Cell[][], ws: number[], top: number) => {
+    rows.forEach((row, r) => {
+      const y = top + r * ROW;
+      if (r % 2 === 1) {
+        ctx.fillStyle = "#f3f4f6";
+        ctx.fillRect(PAD, y, sum(ws), ROW);
+      }
+      let x = PAD;
+      row.forEach((cell, c) => {
+        const w = ws[c];
+        ctx.font = `${cell.bold ? "bold " : ""}12px sans-serif`;
+        ctx.fillStyle = cell.color ?? "#111827";
+        ctx.textAlign = c === 0 ? "left" : "center";
+        ctx.fillText(cell.text, c === 0 ? x + 4 : x + w / 2, y + ROW / 2, w - 4);
+        x += w;
+      });
+    });
+  };
+
+  const scoresTop = PAD + 30;
+  drawGrid(scores, scoreWidths, scoresTop);
+  drawGrid(ledger, ledgerWidths, scoresTop + scores.length * ROW + PAD);
+  return canvas;
+}
+
+export function scorecardBlob(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/png"));
+}
@@ -0,0 +1,277 @@
+import { DEFAULT_SETTINGS, HoleState, MultiplierRule, Player, ScoreBasis, Settings, TeamPick } from "./match";
+import { toCents } from "./money";
+import { computeDeltas, findUnbalancedHoles } from "./scoring";
+
+// Players get ids p1, p2, … in roster order
+function roster(names: string[], handicaps: number[] = []): Player[] {
+  return names.map((name, i) => ({ id: `p${i + 1}`, name, handicap: handicaps[i] ?? "" }));
+}
+
+const PLAYERS = roster(["A", "B", "C", "D", ""]);
+
+// "T1:4 T2:5 Sit" → one hole, one token per player (p1, p2, …)
+function hole(spec: string, par: number | "" = 4): HoleState {
+  const teamPicks: Record<string, TeamPick> = {};
+  const scores: Record<string, number | ""> = {};
+  spec.split(" ").forEach((tok, i) => {
+    const [pick, score] = tok.split(":");
+    teamPicks[`p${i + 1}`] = pick as TeamPick;
+    if (score !== undefined && score !== "") scores[`p${i + 1}`] = Number(score);
+  });
+  return { par, strokeIndex: "", yardage: "", teamPicks, scores, extras: {} };
+}
+
+const BIRDIE: MultiplierRule = { kind: "score", toPar: -1, orBetter: false, par: "", multiplier: 2 };
+const EAGLE: MultiplierRule = { kind: "score", toPar: -2, orBetter: true, par: "", multiplier: 3 };
+const rules = (...multiplierRules: MultiplierRule[]): Partial<Settings> => ({ multiplierRules });
+
+function settings(over: Partial<Settings> = {}): Settings {
+  return { ...DEFAULT_SETTINGS, multiplierRules: [], ...over };
+}
+
+describe("computeDeltas", () => {
+  // Expected rows are written in dollars; the engine works in cents
+  test.each<[string, HoleState[], Partial<Settings>, number[][]]>([
+    ["2v2 best ball", [hole("T1:4 T1:5 T2:5 T2:6")], {}, [[1, 1, -1, -1]]],
+    ["wager scales the stake", [hole("T1:5 T1:5 T2:4 T2:6")], { wager: 2.5 }, [[-2.5, -2.5, 2.5, 2.5]]],
+    ["team tie carries to the next hole", [hole("T1:4 T1:5 T2:4 T2:6"), hole("T1:3 T1:5 T2:4 T2:6", 3)], {}, [
+      [0, 0, 0, 0],
+      [2, 2, -2, -2],
+    ]],
+    ["carry accumulates over several ties", [
+      hole("T1:4 T2:4"),
+      hole("T1:4 T2:4"),
+      hole("T1:4 T2:5"),
+    ], {}, [
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [3, -3, 0, 0],
+    ]],
+    ["ties push when carry-over is off", [hole("T1:4 T2:4"), hole("T1:4 T2:5")], { carryOver: false }, [
+      [0, 0, 0, 0],
+      [1, -1, 0, 0],
+    ]],
+    ["2 winners vs 1 loser: loser pays double", [hole("T1:4 T1:6 T2:5")], {}, [[1, 1, -2, 0]]],
+    ["1 winner vs 3 losers: winner collects triple", [hole("T1:3 T2:4 T2:5 T2:6")], {}, [[3, -1, -1, -1]]],
+    ["solo = double on a 1v2 win", [hole("T1:3 T2:4 T2:5")], { soloDouble: true }, [[4, -2, -2, 0]]],
+    ["solo = double ignores 1v1", [hole("T1:3 T2:4")], { soloDouble: true }, [[1, -1, 0, 0]]],
+    ["solo = double ignores a losing solo", [hole("T1:5 T2:4 T2:6")], { soloDouble: true }, [[-2, 1, 1, 0]]],
+    ["birdie doubles", [hole("T1:3 T2:4")], rules(BIRDIE), [[2, -2, 0, 0]]],
+    ["birdie off leaves the stake alone", [hole("T1:3 T2:4")], {}, [[1, -1, 0, 0]]],
+    ["eagle triples", [hole("T1:3 T2:4", 5)], rules(BIRDIE, EAGLE), [[3, -3, 0, 0]]],
+    ["albatross counts as eagle", [hole("T1:2 T2:4", 5)], rules(EAGLE), [[3, -3, 0, 0]]],
+    ["eagle off: an eagle does not count as a birdie", [hole("T1:3 T2:4", 5)], rules(BIRDIE), [[1, -1, 0, 0]]],
+    ["multiplier stacks with carry", [hole("T1:4 T2:4"), hole("T1:3 T2:4")], rules(BIRDIE), [
+      [0, 0, 0, 0],
+      [4, -4, 0, 0],
+    ]],
+    ["a score out of bounds doesn't count", [hole("T1:0 T1:5 T2:4 T2:6")], rules(BIRDIE), [[-1, -1, 1, 1]]],
+    ["blank par is treated as 4", [hole("T1:3 T2:4", "")], rules(BIRDIE), [[2, -2, 0, 0]]],
+    ["the biggest matching score rule wins", [hole("T1:2 T2:4", 5)], rules(BIRDIE, EAGLE, { ...EAGLE, toPar: -3, multiplier: 4 }), [[4, -4, 0, 0]]],
+    ["par-only rule skips other pars", [hole("T1:3 T2:4"), hole("T1:2 T2:3", 3)], rules(BIRDIE, { ...BIRDIE, par: 3, multiplier: 3 }), [
+      [2, -2, 0, 0],
+      [3, -3, 0, 0],
+    ]],
+    ["hole-in-one jackpot", [hole("T1:1 T2:3", 3)], rules(BIRDIE, EAGLE, { kind: "holeInOne", multiplier: 10 }), [[10, -10, 0, 0]]],
+    ["per-hole rule applies to that hole only", [hole("T1:4 T2:5"), hole("T1:4 T2:5")], rules({ kind: "hole", hole: 2, multiplier: 2 }), [
+      [1, -1, 0, 0],
+      [2, -2, 0, 0],
+    ]],
+    ["stacked: carry x birdie x solo x hole", [hole("T1:4 T2:4 T2:5"), hole("T1:3 T2:4 T2:5")], {
+      ...rules(BIRDIE, { kind: "hole", hole: 2, multiplier: 2 }),
+      soloDouble: true,
+    }, [
+      [0, 0, 0, 0],
+      [32, -16, -16, 0],
+    ]],
+    ["unstacked: biggest multiplier on the hole's unit, carry at face value", [hole("T1:4 T2:4 T2:5"), hole("T1:3 T2:4 T2:5")], {
+      ...rules(BIRDIE, { kind: "hole", hole: 2, multiplier: 3 }),
+      soloDouble: true,
+      multipliersStack: false,
+    }, [
+      [0, 0, 0, 0],
+      [8, -4, -4, 0],
+    ]],
+    ["single team: low score collects from each other player", [hole("T1:3 T1:4 T1:5")], {}, [[2, -1, -1, 0]]],
+    ["single team tie carries", [hole("T2:4 T2:4 T2:5"), hole("T2:4 T2:5 T2:5")], {}, [
+      [0, 0, 0, 0],
+      [4, -2, -2, 0],
+    ]],
+    ["missing score on one side skips the hole", [hole("T1:4 T2:")], {}, [[0, 0, 0, 0]]],
+    ["second ball breaks a team tie", [hole("T1:4 T1:5 T2:4 T2:6")], { bestBallSecondBall: true }, [[1, 1, -1, -1]]],
+    ["level second balls still carry", [hole("T1:4 T1:5 T2:4 T2:5"), hole("T1:4 T1:5 T2:5 T2:5")], { bestBallSecondBall: true }, [
+      [0, 0, 0, 0],
+      [2, 2, -2, -2],
+    ]],
+    ["no second ball, no tie-break", [hole("T1:4 T2:4 T2:6")], { bestBallSecondBall: true }, [[0, 0, 0, 0]]],
+    ["split: tied low balls share a single-team hole", [hole("T1:4 T1:4 T1:5 T1:6")], { bestBallTieSplit: true }, [[1, 1, -1, -1]]],
+    ["split: everyone level still ties", [hole("T1:4 T1:4"), hole("T1:4 T1:5")], { bestBallTieSplit: true }, [
+      [0, 0, 0, 0],
+      [2, -2, 0, 0],
+    ]],
+    ["nobody picked a team", [hole("Sit:4 Sit:5")], {}, [[0, 0, 0, 0]]],
+  ])("%s", (_name, holes, over, dollars) => {
+    const expected = dollars.map((row) => row.map(toCents));
+    const { deltas, totals } = computeDeltas(holes, settings(over), PLAYERS);
+    expect(deltas).toEqual(expected);
+    expect(findUnbalancedHoles(deltas)).toEqual([]);
+    expect(totals).toEqual(expected.reduce((acc, row) => acc.map((v, i) => v + row[i])));
+  });
+
+  test.each<[string, string, number, number[]]>([
+    ["$0.50, 2 winners vs 3 losers", "T1:3 T1:4 T2:5 T2:5 T2:6", 0.5, [75, 75, -50, -50, -50]],
+    ["$0.25, 3 winners vs 2 losers", "T1:3 T1:4 T1:4 T2:5 T2:5", 0.25, [25, 25, 25, -38, -37]],
+    ["$0.10, 1 winner vs 3 losers", "T1:3 T2:4 T2:5 T2:6", 0.1, [30, -10, -10, -10, 0]],
+    ["$0.35, 3 winners vs 2 losers", "T1:3 T1:4 T1:4 T2:5 T2:5", 0.35, [35, 35, 35, -53, -52]],
+    ["$1/3 rounds the wager to the cent", "T1:3 T1:4 T1:4 T2:5 T2:5", 1 / 3, [33, 33, 33, -50, -49]],
+  ])("%s: remainder pennies go to the first players", (_name, spec, wager, expected) => {
+    const players = roster(["A", "B", "C", "D", "E"]);
+    const { deltas } = computeDeltas([hole(spec)], settings({ wager }), players);
+    expect(deltas[0]).toEqual(expected);
+    expect(findUnbalancedHoles(deltas)).toEqual([]);
+  });
+
+  test("only named players are active", () => {
+    const { activeIds, deltas } = computeDeltas([hole("T1:4 T2:5 T1:3 T2:6 T1:2")], settings(), roster(["A", "", "C", "D", ""]));
+    expect(activeIds).toEqual(["p1", "p3", "p4"]);
+    expect(deltas).toEqual([[100, 100, -200]]);
+  });
+
+  test("a blank slot doesn't shift later players' scores", () => {
+    // Regression: with slot 2 blank, C's score used to be read from B's slot
+    const players = roster(["A", "", "C"]);
+    const h: HoleState = {
+      par: 4,
+      strokeIndex: "",
+      yardage: "",
+      teamPicks: { p1: "T1", p3: "T2" },
+      scores: { p1: 5, p3: 4 },
+      extras: {},
+    };
+    const { activeIds, deltas } = computeDeltas([h], settings(), players);
+    expect(activeIds).toEqual(["p1", "p3"]);
+    expect(deltas).toEqual([[-100, 100]]);
+  });
+
+  test("reordering players keeps their results", () => {
+    const h = hole("T1:3 T2:4 T2:5");
+    const { deltas } = computeDeltas([h], settings(), roster(["A", "B", "C"]));
+    const reordered = [PLAYERS[2], PLAYERS[0], PLAYERS[1]];
+    const again = computeDeltas([h], settings(), reordered);
+    expect(again.activeIds).toEqual(["p3", "p1", "p2"]);
+    expect(again.deltas[0]).toEqual([deltas[0][2], deltas[0][0], deltas[0][1]]);
+  });
+
+  test("explains each hole", () => {
+    const { explanations } = computeDeltas(
+      [hole("T1:4 T2:4"), hole("T1:3 T2:4 T2:5"), hole("T1:4 T2:"), hole("Sit Sit"), hole("T1:4 T1:4")],
+      settings({ ...rules(BIRDIE), soloDouble: true }),
+      PLAYERS
+    );
+    expect(explanations.map((e) => e.status)).toEqual(["tied", "won", "incomplete", "no-contest", "tied"]);
+    expect(explanations[0]).toMatchObject({ bestScore: 4, carryUnits: 0 });
+    expect(explanations[1]).toMatchObject({
+      winningTeam: "T1",
+      winners: [0],
+      bestScore: 3,
+      carryUnits: 1,
+      multiplier: 2,
+      soloBonus: true,
+      stake: 800,
+    });
+    expect(explanations[4]).toMatchObject({ winningTeam: null, carryUnits: 0 });
+  });
+});
+
+describe("carry left at the end", () => {
+  const holes = [hole("T1:4 T2:5"), hole("T1:4 T2:4 T2:5"), hole("T1:3 T2:3 T2:4")];
+
+  test("void drops it with a note", () => {
+    const { deltas, notes, carryLeft } = computeDeltas(holes, settings({ bestBallFinalCarry: "void" }), PLAYERS);
+    expect(deltas[2]).toEqual([0, 0, 0, 0]);
+    expect(carryLeft).toBe(0);
+    expect(notes).toEqual(["2 holes ($2.00 a player) still carrying after H3: void"]);
+  });
+
+  test("split: the last hole's tied low balls collect from the rest", () => {
+    const { deltas, notes } = computeDeltas(holes, settings({ bestBallFinalCarry: "split" }), PLAYERS);
+    expect(deltas[2]).toEqual([100, 100, -200, 0]);
+    expect(notes).toEqual(["2 holes ($2.00 a player) still carrying after H3: split between A and B"]);
+  });
+
+  test("playoff keeps it open until a deciding hole", () => {
+    const open = computeDeltas(holes, settings({ bestBallFinalCarry: "playoff" }), PLAYERS);
+    expect(open.carryLeft).toBe(2);
+    const decided = computeDeltas([...holes, hole("T1:4 T2:5 T2:5")], settings({ bestBallFinalCarry: "playoff" }), PLAYERS);
+    expect(decided.carryLeft).toBe(0);
+    expect(decided.deltas[3]).toEqual([600, -300, -300, 0]);
+  });
+
+  test("split: the pot takes the last hole's multipliers", () => {
+    const birdies = [hole("T1:4 T2:5"), hole("T1:4 T2:4 T2:5"), hole("T1:3 T2:3 T2:4")];
+    const { deltas, notes } = computeDeltas(birdies, settings({ bestBallFinalCarry: "split", ...rules(BIRDIE) }), PLAYERS);
+    // Stacked, the carried unit doubles along with the birdied last hole's own
+    expect(deltas[2]).toEqual([200, 200, -400, 0]);
+    expect(notes).toEqual(["2 holes ($4.00 a player) still carrying after H3: split between A and B"]);
+  });
+
+  test("an unfinished last hole leaves the carry open and says so", () => {
+    const { deltas, notes, carryLeft } = computeDeltas([...holes, hole("T1:4 T2:")], settings({ bestBallFinalCarry: "void" }), PLAYERS);
+    expect(deltas[3]).toEqual([0, 0, 0, 0]);
+    expect(carryLeft).toBe(0);
+    expect(notes).toEqual(["2 holes ($2.00 a player) still carrying: unsettled until the round is finished"]);
+
+    // One side picked and no one on it has a score yet
+    const oneSide = computeDeltas([...holes, hole("T1: T1:")], settings({ bestBallFinalCarry: "void" }), PLAYERS);
+    expect(oneSide.notes).toEqual(["2 holes ($2.00 a player) still carrying: unsettled until the round is finished"]);
+  });
+
+  test("a last hole with no teams leaves the carry unsettled and says so", () => {
+    const { deltas, notes, carryLeft } = computeDeltas([...holes, hole("Sit:4 Sit:5")], settings({ bestBallFinalCarry: "split" }), PLAYERS);
+    expect(deltas[3]).toEqual([0, 0, 0, 0]);
+    expect(carryLeft).toBe(0);
+    expect(notes).toEqual(["2 holes ($2.00 a player) still carrying: unsettled, H4 has no teams picked"]);
+  });
+});
+
+test("findUnbalancedHoles flags rows that don't net to zero", () => {
+  expect(findUnbalancedHoles([[100, -100], [0, 0], [50, -49], [1, 0]])).toEqual([2, 3]);
+});
+
+describe("net scoring", () => {
+  const net = (over: Partial<Settings> = {}) => settings({ netScoring: true, ...over });
+  // Stroke index 1 on hole one, so any handicap of 1+ gets a stroke there
+  const rated = (spec: string, par = 4) => ({ ...hole(spec, par), strokeIndex: 1 });
+
+  test("strokes turn a gross loss into a net win", () => {
+    // On a one-hole course every handicap stroke lands on that hole
+    const { deltas } = computeDeltas([rated("T1:5 T2:4")], net(), roster(["A", "B"], [1, 0]));
+    expect(deltas[0]).toEqual([0, 0]);
+    const two = computeDeltas([rated("T1:5 T2:4")], net(), roster(["A", "B"], [2, 0]));
+    expect(two.deltas[0]).toEqual([100, -100]);
+  });
+
+  test("gross scoring ignores handicaps", () => {
+    const { deltas } = computeDeltas([rated("T1:5 T2:4")], settings(), roster(["A", "B"], [2, 0]));
+    expect(deltas[0]).toEqual([-100, 100]);
+  });
+
+  test("allowance scales the strokes", () => {
+    // 50% of 2 is 1 stroke: net 4 vs 4 is a push
+    const { explanations } = computeDeltas([rated("T1:5 T2:4")], net({ handicapAllowance: 50 }), roster(["A", "B"], [2, 0]));
+    expect(explanations[0].status).toBe("tied");
+  });
+
+  test.each<[ScoreBasis, number]>([
+    ["gross", 100],
+    ["net", 200],
+  ])("multipliers decided on %s", (multiplierBasis, won) => {
+    // Gross par, net birdie for player A
+    const { deltas } = computeDeltas(
+      [rated("T1:4 T2:5")],
+      net({ ...rules(BIRDIE), multiplierBasis }),
+      roster(["A", "B"], [1, 0])
+    );
+    expect(deltas[0][0]).toBe(won);
+  });
+});
@@ -0,0 +1,340 @@
+import { activePlayers, HoleState, pickOf, Player, scoreOf, Settings } from "./match";
+import { strokeTable } from "./handicap";
+import { formatDollars, splitCents, toCents } from "./money";
+import { holeMultiplier, scoreMultiplier, stakeUnits } from "./multipliers";
+
+// ---------- Types ----------
+export type HoleStatus =
+  | "won"            // money changed hands
+  | "tied"           // still level after any tie-break (carry grows if carryOver is on)
+  | "no-contest"     // nobody picked a team
+  | "incomplete";    // a side has no score yet
+
+export type HoleExplanation = {
+  status: HoleStatus;
+  par: number;                      // par actually used (blank or below 3 → 4)
+  winningTeam: "T1" | "T2" | null;  // null in the single-team branch
+  winners: number[];                // active-player indices
+  bestScore: number | null;         // winning (or tied) best ball, net when netScoring
+  secondBall: boolean;              // a best-ball tie decided on the second-best balls
+  carryUnits: number;               // carried units riding on this hole
+  multiplier: number;               // from the score rules (birdie, eagle, …)
+  holeMultiplier: number;           // from a per-hole rule ("18th is double")
+  soloBonus: boolean;               // Solo = Double applied
+  stake: number;                    // per-unit stake in cents after carry, multipliers and solo
+};
+
+export type ScoringResult = {
+  deltas: number[][];               // [hole][active player], in cents
+  totals: number[];                 // [active player], in cents
+  activeIds: string[];              // active player → player id
+  explanations: HoleExplanation[];  // [hole]
+  notes?: string[];                 // format-specific summary lines (bets, skins) for the ledger
+  presses?: PressResult[];          // side bets settled apart from the hole-by-hole money
+  carryLeft?: number;               // units still carrying after the last hole, waiting on a playoff (0 = none)
+};
+
+// A press: a match-play side bet between T1 and T2 from `start` to the last hole
+export type PressResult = {
+  label: string;                    // e.g. "T2 press (H5)"
+  start: number;                    // first hole index
+  stake: number;                    // cents per player on the bigger side
+  up: number;                       // holes up for T1 (negative = T2 up)
+  settled: boolean;
+  summary: string;                  // result line for the ledger
+  amounts: number[];                // [active player], in cents
+};
+
+// ---------- Helpers ----------
+export function effectivePar(raw: HoleState["par"]): number {
+  return typeof raw === "number" && Number.isFinite(raw) && raw >= 3 ? raw : 4;
+}
+
+export const MAX_OVER_PAR = 6;      // a 10 on a par 4 is the highest score taken as real
+
+export function strokeBounds(par: HoleState["par"]): { min: number; max: number } {
+  return { min: 1, max: effectivePar(par) + MAX_OVER_PAR };
+}
+
+// The score as the scoring counts it: whole strokes within the bounds. One
+// outside them is flagged to be fixed (see scoreProblem) and counts as not
+// entered until it is.
+export function countedScore(hole: HoleState, id: string): number | null {
+  const s = scoreOf(hole, id);
+  if (s === "") return null;
+  const { min, max } = strokeBounds(hole.par);
+  return Number.isInteger(s) && s >= min && s <= max ? s : null;
+}
+
+export function newExplanation(par: number, carryUnits = 0): HoleExplanation {
+  return {
+    status: "incomplete",
+    par,
+    winningTeam: null,
+    winners: [],
+    bestScore: null,
+    secondBall: false,
+    carryUnits,
+    multiplier: 1,
+    holeMultiplier: 1,
+    soloBonus: false,
+    stake: 0,
+  };
+}
+
+export type ScoreGrid = {
+  gross: (number | null)[][];       // [hole][active player], null = no score yet
+  net: (number | null)[][];         // gross less handicap strokes (= gross when netScoring is off)
+  play: (number | null)[][];        // the one holes are decided on: net when netScoring, else gross
+};
+
+export function scoreGrid(holes: HoleState[], settings: Settings, active: Player[]): ScoreGrid {
+  const strokes = settings.netScoring
+    ? strokeTable(holes, active.map((p) => p.handicap), settings.handicapAllowance)
+    : null;
+  const gross = holes.map((h) => active.map((p) => countedScore(h, p.id)));
+  const net = gross.map((row, hi) =>
+    row.map((g, aj) => (g === null || !strokes ? g : g - strokes[hi][aj]))
+  );
+  return { gross, net, play: settings.netScoring ? net : gross };
+}
+
+// Active-player indices on each side of a hole
+export function teamsOn(hole: HoleState, active: Player[]): { t1: number[]; t2: number[] } {
+  const t1: number[] = [];
+  const t2: number[] = [];
+  active.forEach((p, aj) => {
+    const pick = pickOf(hole, p.id);
+    if (pick === "T1") t1.push(aj);
+    else if (pick === "T2") t2.push(aj);
+  });
+  return { t1, t2 };
+}
+
+// Lowest score among `team` (active indices), Infinity if none of them has one
+export function bestOf(scores: (number | null)[], team: number[]): number {
+  let best = Infinity;
+  for (const aj of team) {
+    const s = scores[aj];
+    if (s !== null && s < best) best = s;
+  }
+  return best;
+}
+
+// Second-lowest score among `team`, Infinity if fewer than two have one
+export function secondBestOf(scores: (number | null)[], team: number[]): number {
+  const sorted = team
+    .map((aj) => scores[aj])
+    .filter((s): s is number => s !== null)
+    .sort((a, b) => a - b);
+  return sorted.length >= 2 ? sorted[1] : Infinity;
+}
+
+// Move `stake` per player on the bigger side; the pot is then shared across
+// the smaller side, remainder pennies going to the first players.
+export function payPot(row: number[], winners: number[], losers: number[], stake: number) {
+  const pot = stake * Math.max(winners.length, losers.length);
+  const gains  = splitCents(pot, winners.length);
+  const losses = splitCents(pot, losers.length);
+  winners.forEach((aj, k) => (row[aj] += gains[k]));
+  losers.forEach((aj, k)  => (row[aj] -= losses[k]));
+}
+
+// Each payer hands over `stake`; the winners share what comes in
+export function splitPot(row: number[], winners: number[], payers: number[], stake: number) {
+  const shares = splitCents(stake * payers.length, winners.length);
+  payers.forEach((aj) => (row[aj] -= stake));
+  winners.forEach((aj, k) => (row[aj] += shares[k]));
+}
+
+export function sumTotals(deltas: number[][], nPlayers: number): number[] {
+  const totals = Array(nPlayers).fill(0);
+  deltas.forEach((row) => row.forEach((v, i) => (totals[i] += v)));
+  return totals;
+}
+
+// ---------- Core Computation (payouts) ----------
+export function computeDeltas(holes: HoleState[], settings: Settings, players: Player[]): ScoringResult {
+  const active = activePlayers(players);
+  const nPlayers = active.length;
+
+  const deltas = holes.map(() => Array(nPlayers).fill(0));
+  const explanations: HoleExplanation[] = [];
+  const grid = scoreGrid(holes, settings, active);
+  let carry = 0;
+
+  for (let hi = 0; hi < holes.length; hi++) {
+    const hole = holes[hi];
+    const par = effectivePar(hole.par);
+    const carryUnits = settings.carryOver ? carry : 0;
+    const explain = newExplanation(par, carryUnits);
+    explanations.push(explain);
+
+    // Teams are compared on net when netScoring is on, otherwise gross
+    const scores = grid.play[hi];
+    const stakeFor = (winners: number[], solo: boolean) => {
+      const basis = settings.multiplierBasis === "net" ? grid.net[hi] : grid.gross[hi];
+      explain.multiplier = scoreMultiplier(bestOf(basis, winners), par, settings.multiplierRules);
+      explain.holeMultiplier = holeMultiplier(hi, settings.multiplierRules);
+      explain.soloBonus = solo;
+      const units = stakeUnits(
+        { carryUnits, score: explain.multiplier, solo: solo ? 2 : 1, hole: explain.holeMultiplier },
+        settings
+      );
+      explain.stake = toCents(settings.wager) * units;
+      return explain.stake;
+    };
+
+    const { t1, t2 } = teamsOn(hole, active);
+
+    if (t1.length === 0 && t2.length === 0) {
+      explain.status = "no-contest";
+      continue;
+    }
+
+    // Only one side picked: low score among them takes the stake off each other participant
+    if (t1.length === 0 || t2.length === 0) {
+      const participants = t1.length ? t1 : t2;
+      const best = bestOf(scores, participants);
+      if (!Number.isFinite(best)) continue;
+      explain.bestScore = best;
+
+      // Tied low balls share the winnings when splitting; otherwise it's a tie
+      const bestList = participants.filter((aj) => scores[aj] === best);
+      const payers = participants.filter((aj) => !bestList.includes(aj));
+      if (bestList.length > 1 && (!settings.bestBallTieSplit || payers.length === 0)) {
+        explain.status = "tied";
+        if (settings.carryOver) carry += 1;
+        continue;
+      }
+
+      splitPot(deltas[hi], bestList, payers, stakeFor(bestList, false));
+      explain.status = "won";
+      explain.winners = bestList;
+      carry = 0;
+      continue;
+    }
+
+    const best1 = bestOf(scores, t1);
+    const best2 = bestOf(scores, t2);
+    if (!Number.isFinite(best1) || !Number.isFinite(best2)) continue;
+
+    explain.bestScore = Math.min(best1, best2);
+    let winningTeam: "T1" | "T2" | null = best1 < best2 ? "T1" : best2 < best1 ? "T2" : null;
+    if (!winningTeam && settings.bestBallSecondBall) {
+      const second1 = secondBestOf(scores, t1);
+      const second2 = secondBestOf(scores, t2);
+      if (Number.isFinite(second1) && Number.isFinite(second2) && second1 !== second2) {
+        winningTeam = second1 < second2 ? "T1" : "T2";
+        explain.secondBall = true;
+      }
+    }
+    if (!winningTeam) {
+      explain.status = "tied";
+      if (settings.carryOver) carry += 1;
+      continue;
+    }
+
+    const winners = winningTeam === "T1" ? t1 : t2;
+    const losers  = winningTeam === "T1" ? t2 : t1;
+    const stake = stakeFor(winners, settings.soloDouble && winners.length === 1 && losers.length >= 2);
+    payPot(deltas[hi], winners, losers, stake);
+
+    explain.status = "won";
+    explain.winningTeam = winningTeam;
+    explain.winners = winners;
+    carry = 0;
+  }
+
+  const notes: string[] = [];
+  const carryLeft = settleFinalCarry(carry, holes, settings, active, grid, deltas, explanations, notes);
+
+  return {
+    deltas,
+    totals: sumTotals(deltas, nPlayers),
+    activeIds: active.map((p) => p.id),
+    explanations,
+    notes,
+    carryLeft,
+  };
+}
+
+// A round that ends on a tie with carry still riding resolves it by
+// `bestBallFinalCarry`: wait for a playoff hole, split the pot between the
+// last hole's tied low balls (each other player on the hole pays), or void
+// it. A split pot is what the last hole would have paid had the tied low
+// balls won it, multipliers and all. Carry riding into an unfinished last
+// hole, or one nobody played, is noted as unsettled. Returns the units left
+// waiting on a playoff.
+function settleFinalCarry(
+  carry: number,
+  holes: HoleState[],
+  settings: Settings,
+  active: Player[],
+  grid: ScoreGrid,
+  deltas: number[][],
+  explanations: HoleExplanation[],
+  notes: string[]
+): number {
+  const last = holes.length - 1;
+  const carried = (cents: number) => `${carry} hole${carry === 1 ? "" : "s"} (${formatDollars(cents)} a player) still carrying`;
+  if (carry === 0) return 0;
+  const faceValue = carry * toCents(settings.wager);
+  const status = explanations[last]?.status;
+  if (status === "incomplete") {
+    notes.push(`${carried(faceValue)}: unsettled until the round is finished`);
+    return 0;
+  }
+  if (status === "no-contest") {
+    notes.push(`${carried(faceValue)}: unsettled, H${last + 1} has no teams picked`);
+    return 0;
+  }
+  if (status !== "tied") return 0;
+  const open = (cents: number) => `${carried(cents)} after H${last + 1}`;
+
+  if (settings.bestBallFinalCarry === "playoff") {
+    notes.push(`${open(faceValue)}: play a playoff hole to settle`);
+    return carry;
+  }
+  if (settings.bestBallFinalCarry === "split") {
+    const { t1, t2 } = teamsOn(holes[last], active);
+    const onHole = [...t1, ...t2];
+    const low = bestOf(grid.play[last], onHole);
+    const tied = onHole.filter((aj) => grid.play[last][aj] === low);
+    const payers = onHole.filter((aj) => !tied.includes(aj));
+    if (payers.length > 0) {
+      // The last hole's own unit takes the multipliers; earlier ties ride with it
+      const basis = settings.multiplierBasis === "net" ? grid.net[last] : grid.gross[last];
+      const units = stakeUnits(
+        {
+          carryUnits: carry - 1,
+          score: scoreMultiplier(bestOf(basis, tied), effectivePar(holes[last].par), settings.multiplierRules),
+          solo: 1,
+          hole: holeMultiplier(last, settings.multiplierRules),
+        },
+        settings
+      );
+      const pot = toCents(settings.wager) * units;
+      splitPot(deltas[last], tied, payers, pot);
+      notes.push(`${open(pot)}: split between ${tied.map((aj) => active[aj].name).join(" and ")}`);
+      return 0;
+    }
+  }
+  notes.push(`${open(faceValue)}: void`);
+  return 0;
+}
+
+// Cents a player has riding on each hole from earlier ties
+export function carryPots(explanations: HoleExplanation[], wager: number): number[] {
+  return explanations.map((e) => e.carryUnits * toCents(wager));
+}
+
+// Every hole is a closed transfer between players, so each row must net to
+// zero. Returns the indices of any hole that doesn't.
+export function findUnbalancedHoles(deltas: number[][]): number[] {
+  const bad: number[] = [];
+  deltas.forEach((row, hi) => {
+    if (row.reduce((a, b) => a + b, 0) !== 0) bad.push(hi);
+  });
+  return bad;
+}
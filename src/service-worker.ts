@@ -0,0 +1,40 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Built by react-scripts (workbox InjectManifest) into service-worker.js.
+// The app shell is precached so the tracker opens with no signal; a new
+// build waits until the page says to take over (see pwa.ts).
+import { clientsClaim } from "workbox-core";
+import { ExpirationPlugin } from "workbox-expiration";
+import { createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { registerRoute } from "workbox-routing";
+import { StaleWhileRevalidate } from "workbox-strategies";
+
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+
+// ---------- App shell ----------
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Page loads get index.html from the cache; anything that looks like a file
+// or a reserved path goes to the network as usual
+const fileExtension = /\/[^/?]+\.[^/]+$/;
+registerRoute(({ request, url }) => {
+  if (request.mode !== "navigate") return false;
+  if (url.pathname.startsWith("/_")) return false;
+  return !url.pathname.match(fileExtension);
+}, createHandlerBoundToURL(process.env.PUBLIC_URL + "/index.html"));
+
+// ---------- Public files ----------
+// Icons and the manifest are copied from public/ rather than built, so they
+// aren't in the precache; keep whatever was last fetched
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && /\.(png|ico|json)$/.test(url.pathname),
+  new StaleWhileRevalidate({ cacheName: "public-files", plugins: [new ExpirationPlugin({ maxEntries: 20 })] })
+);
+
+// ---------- Updates ----------
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
@@ -0,0 +1,59 @@
+import { computeSettlement, mergeBalances, settlementImbalance, settlementSummary, Transfer } from "./settlement";
+
+// Apply transfers and return what's left of each balance
+function apply(balances: number[], transfers: Transfer[]) {
+  const left = [...balances];
+  for (const t of transfers) {
+    left[t.from] += t.cents;
+    left[t.to] -= t.cents;
+  }
+  return left;
+}
+
+test.each<[string, number[], number]>([
+  ["all square", [0, 0, 0], 0],
+  ["one debtor, one creditor", [500, -500], 1],
+  ["one winner takes from three", [300, -100, -100, -100], 3],
+  ["two independent pairs need two transfers, not three", [500, 300, -300, -500], 2],
+  ["pairs hidden among uneven amounts", [700, -200, 400, -500, -400], 3],
+  ["odd cents", [1, 1, -2], 2],
+  ["five players, no shortcuts", [1000, 250, -350, -450, -450], 4],
+])("%s", (_name, balances, count) => {
+  const transfers = computeSettlement(balances);
+  expect(transfers).toHaveLength(count);
+  expect(apply(balances, transfers)).toEqual(balances.map(() => 0));
+  transfers.forEach((t) => {
+    expect(t.cents).toBeGreaterThan(0);
+    expect(balances[t.from]).toBeLessThan(0);
+    expect(balances[t.to]).toBeGreaterThan(0);
+  });
+});
+
+test("large groups still settle", () => {
+  const balances = Array.from({ length: 20 }, (_, i) => (i % 2 === 0 ? 100 + i : -(100 + i - 1)));
+  const transfers = computeSettlement(balances);
+  expect(apply(balances, transfers)).toEqual(balances.map(() => 0));
+  expect(transfers.length).toBeLessThan(balances.length);
+});
+
+test("settlementImbalance", () => {
+  expect(settlementImbalance([500, -500])).toBe(0);
+  expect(settlementImbalance([500, -400])).toBe(100);
+});
+
+test("settlementSummary", () => {
+  expect(settlementSummary(["A", "B", "C"], [{ from: 1, to: 0, cents: 550 }])).toBe(
+    "Side Bets — settle up\nB → A: $5.50"
+  );
+  expect(settlementSummary(["A"], [])).toBe("Side Bets — settle up\nAll square, nobody owes anything.");
+  expect(settlementSummary(["A", "B"], [{ from: 1, to: 0, cents: 300 }], ["@ann-golf", ""])).toBe(
+    "Side Bets — settle up\nB → A: $3.00 (@ann-golf)"
+  );
+});
+
+test("one person entered twice settles once", () => {
+  expect(mergeBalances(["dave", "ann", "dave", "bob"], [500, -300, 200, -400])).toEqual({
+    people: [0, 1, 3],
+    balances: [700, -300, -400],
+  });
+});
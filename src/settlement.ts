@@ -0,0 +1,122 @@
+import { formatDollars } from "./money";
+
+// ---------- Types ----------
+export type Transfer = {
+  from: number;                     // payer index into balances
+  to: number;                       // payee index into balances
+  cents: number;                    // always positive
+};
+
+// Above this many non-zero balances the exact search gets slow; fall back to greedy
+const EXACT_LIMIT = 16;
+
+// Settle one zero-sum group: biggest debtor pays biggest creditor until all square.
+// Each step zeroes at least one player, so a group of k needs at most k - 1 transfers.
+function settleGreedy(balances: number[], members: number[]): Transfer[] {
+  const left = new Map(members.map((i) => [i, balances[i]]));
+  const transfers: Transfer[] = [];
+  for (;;) {
+    let debtor = -1;
+    let creditor = -1;
+    left.forEach((v, i) => {
+      if (v < 0 && (debtor < 0 || v < left.get(debtor)!)) debtor = i;
+      if (v > 0 && (creditor < 0 || v > left.get(creditor)!)) creditor = i;
+    });
+    if (debtor < 0 || creditor < 0) break;
+    const cents = Math.min(-left.get(debtor)!, left.get(creditor)!);
+    transfers.push({ from: debtor, to: creditor, cents });
+    left.set(debtor, left.get(debtor)! + cents);
+    left.set(creditor, left.get(creditor)! - cents);
+  }
+  return transfers;
+}
+
+// Split the players into as many independent zero-sum groups as possible.
+// n players in g groups need exactly n - g transfers, so more groups = fewer payments.
+function zeroSumGroups(balances: number[], idx: number[]): number[][] {
+  const n = idx.length;
+  const full = (1 << n) - 1;
+  const sum = new Array<number>(full + 1).fill(0);
+  const best = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sum[mask] = sum[mask ^ low] + balances[idx[31 - Math.clz32(low)]];
+    let most = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)]);
+    }
+    best[mask] = most + (sum[mask] === 0 ? 1 : 0);
+  }
+
+  // Recover an ordering whose zero-sum prefixes mark the group boundaries
+  const order: number[] = [];
+  for (let mask = full; mask; ) {
+    let pick = -1;
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      if (pick < 0 || best[mask ^ (1 << i)] > best[mask ^ (1 << pick)]) pick = i;
+    }
+    order.unshift(idx[pick]);
+    mask ^= 1 << pick;
+  }
+
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let running = 0;
+  for (const i of order) {
+    current.push(i);
+    running += balances[i];
+    if (running === 0) {
+      groups.push(current);
+      current = [];
+    }
+  }
+  return groups;
+}
+
+// ---------- Settlement ----------
+// Minimal payer → payee transfers that bring every balance (in cents) to zero.
+// Balances must net to zero; see settlementImbalance.
+export function computeSettlement(balances: number[]): Transfer[] {
+  const open = balances.map((_, i) => i).filter((i) => balances[i] !== 0);
+  if (open.length > EXACT_LIMIT) return settleGreedy(balances, open);
+  return zeroSumGroups(balances, open).flatMap((g) => settleGreedy(balances, g));
+}
+
+// Non-zero when the balances (e.g. after "already paid" adjustments) can't be settled exactly
+export function settlementImbalance(balances: number[]): number {
+  return balances.reduce((a, b) => a + b, 0);
+}
+
+// Add together the balances of slots that are the same person (same key),
+// e.g. "Dave" and "dave " entered twice. `people[k]` is the first slot of
+// person k, whose name stands for them.
+export function mergeBalances(keys: string[], balances: number[]): { people: number[]; balances: number[] } {
+  const people: number[] = [];
+  const merged: number[] = [];
+  keys.forEach((key, i) => {
+    const k = people.findIndex((j) => keys[j] === key);
+    if (k < 0) {
+      people.push(i);
+      merged.push(balances[i] ?? 0);
+    } else {
+      merged[k] += balances[i] ?? 0;
+    }
+  });
+  return { people, balances: merged };
+}
+
+// Plain-text summary for pasting into the group chat, with the payee's
+// payment handle where there is one
+export function settlementSummary(
+  names: string[],
+  transfers: Transfer[],
+  handles: string[] = [],
+  title = "Side Bets — settle up"
+): string {
+  const lines = transfers.map((t) => {
+    const handle = handles[t.to]?.trim();
+    return `${names[t.from]} → ${names[t.to]}: ${formatDollars(t.cents)}${handle ? ` (${handle})` : ""}`;
+  });
+  return [title, ...(lines.length ? lines : ["All square, nobody owes anything."])].join("\n");
+}
@@ -0,0 +1,41 @@
+import { newMatch } from "./match";
+import { decodeMatch, encodeMatch, ledgerCsv, readSharedMatch, SHARE_PREFIX, shareUrl } from "./share";
+
+test("the ledger CSV has a row per player in dollars", () => {
+  const csv = ledgerCsv(["Ann", "Bo, Jr"], [[150, -150], [-33, 33]], [117, -117]);
+  expect(csv).toBe('Player,H1,H2,Total\nAnn,1.50,-0.33,1.17\n"Bo, Jr",-1.50,0.33,-1.17\n');
+});
+
+test("press money gets its own column", () => {
+  const press = { label: "T1 press (H1)", start: 0, stake: 100, up: 1, settled: true, summary: "", amounts: [100, -100] };
+  expect(ledgerCsv(["A", "B"], [[0, 0]], [100, -100], [press]).split("\n")[1]).toBe("A,0.00,1.00,1.00");
+});
+
+test("each junk bet gets its own column", () => {
+  const greenie = { betId: "greenie", name: "Greenie", amounts: [300, -300] };
+  expect(ledgerCsv(["A", "B"], [[100, -100]], [400, -400], [], [greenie]).split("\n").slice(0, 2)).toEqual([
+    "Player,H1,Greenie,Total",
+    "A,1.00,3.00,4.00",
+  ]);
+});
+
+test("a match survives the trip through a link", () => {
+  const match = newMatch();
+  match.players[0].name = "Zoë ⛳";
+  match.courseName = "Pine / Oak";
+  match.holes[2].scores[match.players[0].id] = 5;
+  match.activeHole = 7;
+
+  const url = shareUrl(match, "https://example.test/app?x=1#old");
+  expect(url.startsWith("https://example.test/app?x=1" + SHARE_PREFIX)).toBe(true);
+  expect(url.split("#")[1]).toMatch(/^m=[A-Za-z0-9_-]+$/);
+
+  const opened = readSharedMatch(new URL(url).hash);
+  expect(opened).toEqual({ ...match, screen: "ledger", activeHole: 0 });
+});
+
+test("garbage in the fragment opens nothing", () => {
+  expect(readSharedMatch("#other")).toBeNull();
+  expect(decodeMatch("not-base64!")).toBeNull();
+  expect(decodeMatch(encodeMatch(newMatch()).slice(0, 20))).toBeNull();
+});
@@ -0,0 +1,76 @@
+import { MatchState } from "./match";
+import { MATCH_SCHEMA_VERSION, migrateMatch } from "./matchStorage";
+import { JunkColumn } from "./junk";
+import { BetColumn } from "./bets";
+import { formatDecimal } from "./money";
+import { toCsv } from "./csv";
+import { PressResult } from "./scoring";
+
+// ---------- Ledger CSV ----------
+// One row per player: per-hole money, presses, junk and side bets (if any)
+// and the total, in dollars
+export function ledgerCsv(
+  names: string[],
+  deltas: number[][],
+  totals: number[],
+  presses: PressResult[] = [],
+  junk: JunkColumn[] = [],
+  bets: BetColumn[] = []
+): string {
+  const header = [
+    "Player",
+    ...deltas.map((_, hi) => `H${hi + 1}`),
+    ...(presses.length ? ["Presses"] : []),
+    ...junk.map((col) => col.name),
+    ...bets.map((col) => col.name),
+    "Total",
+  ];
+  const rows = names.map((name, pi) => [
+    name,
+    ...deltas.map((row) => formatDecimal(row[pi] ?? 0)),
+    ...(presses.length ? [formatDecimal(presses.reduce((sum, p) => sum + p.amounts[pi], 0))] : []),
+    ...junk.map((col) => formatDecimal(col.amounts[pi] ?? 0)),
+    ...bets.map((col) => formatDecimal(col.amounts[pi] ?? 0)),
+    formatDecimal(totals[pi] ?? 0),
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+// ---------- Share links ----------
+// The whole match rides in the URL fragment, which never reaches a server.
+// It carries the schema version so an older link still opens after upgrades.
+export const SHARE_PREFIX = "#m=";
+
+// base64url over UTF-8, without TextEncoder (not in every test environment)
+function toBase64Url(text: string): string {
+  const bytes = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return btoa(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const bytes = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return decodeURIComponent(Array.from(bytes, (c) => "%" + c.charCodeAt(0).toString(16).padStart(2, "0")).join(""));
+}
+
+export function encodeMatch({ players, settings, holes, courseName, bets }: MatchState): string {
+  return toBase64Url(JSON.stringify({ v: MATCH_SCHEMA_VERSION, m: { players, settings, holes, courseName, bets } }));
+}
+
+export function decodeMatch(encoded: string): MatchState | null {
+  try {
+    const { v, m } = JSON.parse(fromBase64Url(encoded));
+    const match = migrateMatch(v, m);
+    return match && { ...match, screen: "ledger", activeHole: 0 };
+  } catch {
+    return null;
+  }
+}
+
+export function shareUrl(match: MatchState, href = window.location.href): string {
+  return href.split("#")[0] + SHARE_PREFIX + encodeMatch(match);
+}
+
+// The shared match in a location hash, if there is one
+export function readSharedMatch(hash: string): MatchState | null {
+  return hash.startsWith(SHARE_PREFIX) ? decodeMatch(hash.slice(SHARE_PREFIX.length)) : null;
+}
@@ -0,0 +1,101 @@
+import { DEFAULT_SETTINGS, HoleState, MatchState, newHole, newMatch, Settings, TeamPick } from "./match";
+import { archiveRound } from "./history";
+import { dotKey, JUNK_PRESETS } from "./junk";
+import { newProfile } from "./roster";
+import { formatToPar, parAverage, playerStats, roundDeltas, roundLines, scoreBucket, teamCarries } from "./stats";
+
+// "T1:4 T2:5" by roster slot; a bare number sits out
+function hole(spec: string, par = 4): HoleState {
+  const teamPicks: Record<string, TeamPick> = {};
+  const scores: Record<string, number | ""> = {};
+  spec.split(" ").forEach((tok, i) => {
+    const [a, b] = tok.split(":");
+    if (b !== undefined) teamPicks[`p${i + 1}`] = a as TeamPick;
+    const score = b ?? a;
+    if (score !== "-") scores[`p${i + 1}`] = Number(score);
+  });
+  return { ...newHole(), par, teamPicks, scores };
+}
+
+function round(names: string[], holes: HoleState[], deltas: number[][], when: string, over: Partial<Settings> = {}) {
+  const match: MatchState = newMatch();
+  match.players = names.map((name, i) => ({ id: `p${i + 1}`, name, handicap: "" }));
+  match.settings = { ...match.settings, ...over };
+  match.holes = holes;
+  const activeIds = match.players.map((p) => p.id);
+  const totals = activeIds.map((_, k) => deltas.reduce((sum, row) => sum + row[k], 0));
+  return archiveRound(match, { activeIds, deltas, totals }, new Date(when));
+}
+
+const first = round(
+  ["Ann", "Bob", "Cy", "Dee"],
+  [hole("T1:3 T1:4 T2:4 T2:4", 3), hole("T1:4 T1:4 T2:6 T2:5"), hole("T1:6 T1:4 T2:5 T2:-", 5)],
+  [
+    [300, -100, -100, -100],
+    [100, 100, -100, -100],
+    [0, 0, 0, 0],
+  ],
+  "2026-05-01T12:00:00"
+);
+const second = round(["ann ", "Bob"], [hole("2 5", 3), hole("7 4", 5)], [[100, -100], [-100, 100]], "2026-06-01T12:00:00", {
+  format: "skins",
+});
+
+test("scores read against par", () => {
+  expect([-3, -2, -1, 0, 1, 2, 5].map(scoreBucket)).toEqual(["eagle", "eagle", "birdie", "par", "bogey", "double", "double"]);
+  expect([0, 3, -2].map(formatToPar)).toEqual(["E", "+3", "-2"]);
+  expect(parAverage({ holes: 4, strokes: 17 })).toBe(4.25);
+  expect(parAverage({ holes: 0, strokes: 0 })).toBeNull();
+});
+
+test("each round gives everyone's gross and score to par", () => {
+  expect(roundLines(first).map((l) => [l.name, l.holes, l.gross, l.toPar])).toEqual([
+    ["Ann", 3, 13, 1],
+    ["Bob", 3, 12, 0],
+    ["Cy", 3, 15, 3],
+    ["Dee", 2, 9, 2],
+  ]);
+});
+
+test("a side's best ball is carried only when one player owns it", () => {
+  // H1: Ann's 3 carries T1, Cy and Dee tie; H2: T1 tie, Dee carries T2; H3: Bob carries T1, T2 is missing a score
+  expect(teamCarries(first.match)).toEqual({ carried: [1, 1, 0, 1], teamHoles: [3, 3, 2, 2] });
+  expect(teamCarries(second.match)).toEqual({ carried: [0, 0], teamHoles: [0, 0] });
+});
+
+test("player stats add up across rounds by identity", () => {
+  const stats = playerStats([second, first]);
+  expect(stats.map((s) => s.name)).toEqual(["ann", "Bob", "Cy", "Dee"]);
+  const [ann, bob] = stats;
+  expect(ann).toMatchObject({ rounds: 2, holes: 5, gross: 22, toPar: 2, carried: 1, teamHoles: 3 });
+  expect(ann.buckets).toEqual({ eagle: 0, birdie: 1, par: 2, bogey: 1, double: 1 });
+  expect(ann.byPar).toEqual({ 3: { holes: 2, strokes: 5 }, 4: { holes: 1, strokes: 4 }, 5: { holes: 2, strokes: 13 } });
+  expect(ann.moneyByPar).toEqual({ 3: 400, 4: 100, 5: -100 });
+  expect(bob.moneyByPar).toEqual({ 3: -200, 4: 100, 5: 100 });
+});
+
+test("a roster profile gathers a player's rounds under their nickname", () => {
+  const ann = { ...newProfile("Ann Lee"), nickname: "Annie" };
+  const stats = playerStats([second, first], [{ ...ann, name: "Ann" }]);
+  expect(stats.find((s) => s.name === "Annie")).toMatchObject({ rounds: 2, holes: 5 });
+});
+
+test("money by hole counts junk and side bets with the main game", () => {
+  const polie = JUNK_PRESETS.find((j) => j.id === "polie")!;
+  const r = round(["Ann", "Bob", "Cy"], [hole("2 3 3", 3), hole("4 4 4")], [[0, 0, 0], [30, -15, -15]], "2026-07-01T12:00:00", {
+    format: "skins",
+    junkBets: [polie],
+  });
+  // A polie for Ann on the 4, and a $5 skins bet between Ann and Bob that Ann takes on the 3
+  r.match.holes[1].extras[dotKey("polie", "p1")] = 1;
+  r.match.bets = [{ id: "ab", name: "Ann v Bob", playerIds: ["p1", "p2"], settings: { ...DEFAULT_SETTINGS, format: "skins", wager: 5 } }];
+
+  expect(roundDeltas(r)).toEqual([
+    [500, -500, 0],
+    [230, -115, -115],
+  ]);
+  const [ann, bob, cy] = playerStats([r]);
+  expect(ann.moneyByPar).toEqual({ 3: 500, 4: 230, 5: 0 });
+  expect(bob.moneyByPar).toEqual({ 3: -500, 4: -115, 5: 0 });
+  expect(cy.moneyByPar).toEqual({ 3: 0, 4: -115, 5: 0 });
+});
@@ -0,0 +1,185 @@
+import { activePlayers, MatchState, Player } from "./match";
+import { ArchivedRound } from "./history";
+import { computeBets, netDeltas } from "./bets";
+import { getFormat } from "./formats";
+import { computeJunk } from "./junk";
+import { effectivePar, scoreGrid, teamsOn } from "./scoring";
+import { Profile, whoIs } from "./roster";
+
+// ---------- Types ----------
+export const PAR_TYPES = [3, 4, 5] as const;
+export type ParType = (typeof PAR_TYPES)[number];
+
+// Gross score against par, eagles and doubles folding in what's beyond them
+export const SCORE_BUCKETS = [
+  { id: "eagle", label: "Eagle or better" },
+  { id: "birdie", label: "Birdie" },
+  { id: "par", label: "Par" },
+  { id: "bogey", label: "Bogey" },
+  { id: "double", label: "Double or worse" },
+] as const;
+export type ScoreBucket = (typeof SCORE_BUCKETS)[number]["id"];
+
+// One player's card in one finished round, over the holes they have a score on
+export type RoundLine = {
+  roundId: string;
+  finishedAt: string;               // ISO timestamp
+  course: string;
+  key: string;                      // who, across rounds (see whoIs)
+  name: string;
+  holes: number;
+  gross: number;
+  toPar: number;
+};
+
+export type PlayerStats = {
+  key: string;
+  name: string;
+  rounds: number;
+  holes: number;                    // holes with a score
+  gross: number;
+  toPar: number;
+  buckets: Record<ScoreBucket, number>;
+  byPar: Record<ParType, { holes: number; strokes: number }>;
+  carried: number;                  // team holes where theirs alone was the side's best ball
+  teamHoles: number;                // team holes played on a side of two or more
+  moneyByPar: Record<ParType, number>;   // cents, hole-by-hole money from the main game, junk and side bets
+};
+
+// ---------- Helpers ----------
+export function scoreBucket(toPar: number): ScoreBucket {
+  if (toPar <= -2) return "eagle";
+  if (toPar === -1) return "birdie";
+  if (toPar === 0) return "par";
+  return toPar === 1 ? "bogey" : "double";
+}
+
+const isParType = (par: number): par is ParType => (PAR_TYPES as readonly number[]).includes(par);
+
+// "E", "+3", "-2"
+export function formatToPar(toPar: number): string {
+  return toPar === 0 ? "E" : toPar > 0 ? `+${toPar}` : String(toPar);
+}
+
+// Strokes per hole, or null before any hole of that par is played
+export function parAverage({ holes, strokes }: { holes: number; strokes: number }): number | null {
+  return holes > 0 ? strokes / holes : null;
+}
+
+// Each hole's gross scores, by active player, skipping the unscored
+function scoredHoles(match: MatchState, player: Player): { hi: number; par: number; score: number }[] {
+  return match.holes.flatMap((h, hi) => {
+    const s = h.scores[player.id];
+    return typeof s === "number" ? [{ hi, par: effectivePar(h.par), score: s }] : [];
+  });
+}
+
+// ---------- Carrying the team ----------
+// On team formats: for each active player, how many holes their ball alone
+// was the best on their side, out of the holes they played on a side of two
+// or more with every score in. Decided on the score the round was played on
+// (net when it was a net game); ties carry no one.
+export function teamCarries(match: MatchState): { carried: number[]; teamHoles: number[] } {
+  const active = activePlayers(match.players);
+  const carried = active.map(() => 0);
+  const teamHoles = active.map(() => 0);
+  if (!getFormat(match.settings.format).usesTeamPicks) return { carried, teamHoles };
+
+  const { play } = scoreGrid(match.holes, match.settings, active);
+  match.holes.forEach((hole, hi) => {
+    const { t1, t2 } = teamsOn(hole, active);
+    for (const side of [t1, t2]) {
+      if (side.length < 2 || side.some((aj) => play[hi][aj] === null)) continue;
+      side.forEach((aj) => (teamHoles[aj] += 1));
+      const best = Math.min(...side.map((aj) => play[hi][aj]!));
+      const owners = side.filter((aj) => play[hi][aj] === best);
+      if (owners.length === 1) carried[owners[0]] += 1;
+    }
+  });
+  return { carried, teamHoles };
+}
+
+// ---------- Per round ----------
+// The round's money hole by hole: the main game as it was archived, plus
+// junk and side bets worked out from the card. Presses aren't tied to one
+// hole and are left out; match-play money lands on the hole that closes it.
+export function roundDeltas(round: ArchivedRound): number[][] {
+  const { holes, settings, players, bets } = round.match;
+  const junk = computeJunk({ holes, settings, players });
+  const main = round.deltas.map((row, hi) => row.map((d, k) => d + (junk.deltas[hi]?.[k] ?? 0)));
+  return netDeltas(round.activeIds, main, computeBets(bets, holes, players));
+}
+
+// Everyone with a score in the round, in roster order
+export function roundLines(round: ArchivedRound, roster: Profile[] = []): RoundLine[] {
+  return activePlayers(round.match.players).flatMap((player) => {
+    const scored = scoredHoles(round.match, player);
+    if (scored.length === 0) return [];
+    return [
+      {
+        roundId: round.id,
+        finishedAt: round.finishedAt,
+        course: round.match.courseName,
+        ...whoIs(player, roster),
+        holes: scored.length,
+        gross: scored.reduce((sum, h) => sum + h.score, 0),
+        toPar: scored.reduce((sum, h) => sum + h.score - h.par, 0),
+      },
+    ];
+  });
+}
+
+// ---------- Per player ----------
+function emptyStats(key: string, name: string): PlayerStats {
+  return {
+    key,
+    name,
+    rounds: 0,
+    holes: 0,
+    gross: 0,
+    toPar: 0,
+    buckets: { eagle: 0, birdie: 0, par: 0, bogey: 0, double: 0 },
+    byPar: { 3: { holes: 0, strokes: 0 }, 4: { holes: 0, strokes: 0 }, 5: { holes: 0, strokes: 0 } },
+    carried: 0,
+    teamHoles: 0,
+    moneyByPar: { 3: 0, 4: 0, 5: 0 },
+  };
+}
+
+// Everything each player has done across the rounds, matched across rounds
+// by roster profile or name. Sorted by name.
+export function playerStats(rounds: ArchivedRound[], roster: Profile[] = []): PlayerStats[] {
+  const byPlayer = new Map<string, PlayerStats>();
+  for (const round of rounds) {
+    const { match } = round;
+    const { carried, teamHoles } = teamCarries(match);
+    const deltas = roundDeltas(round);
+    activePlayers(match.players).forEach((player, aj) => {
+      const { key, name } = whoIs(player, roster);
+      const s = byPlayer.get(key) ?? emptyStats(key, name);
+      byPlayer.set(key, s);
+      s.rounds += 1;
+      s.carried += carried[aj];
+      s.teamHoles += teamHoles[aj];
+
+      for (const { par, score } of scoredHoles(match, player)) {
+        s.holes += 1;
+        s.gross += score;
+        s.toPar += score - par;
+        s.buckets[scoreBucket(score - par)] += 1;
+        if (isParType(par)) {
+          s.byPar[par].holes += 1;
+          s.byPar[par].strokes += score;
+        }
+      }
+
+      const k = round.activeIds.indexOf(player.id);
+      if (k < 0) return;
+      match.holes.forEach((h, hi) => {
+        const par = effectivePar(h.par);
+        if (isParType(par)) s.moneyByPar[par] += deltas[hi]?.[k] ?? 0;
+      });
+    });
+  }
+  return Array.from(byPlayer.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
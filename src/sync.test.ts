@@ -0,0 +1,124 @@
+import { HoleState, newHole, newMatch } from "./match";
+import {
+  applyChanges,
+  cardChanges,
+  createSyncSession,
+  describePath,
+  holeChanges,
+  memorySyncHub,
+  roomTransport,
+  SyncConflict,
+  SyncSnapshot,
+  SyncTransport,
+} from "./sync";
+
+// A device: its own copy of the holes, kept up to date by its session
+function device(transport: SyncTransport, id: string, host?: SyncSnapshot) {
+  const state = { holes: host?.holes ?? [newHole(), newHole()], conflicts: [] as SyncConflict[], adopted: false };
+  const session = createSyncSession({
+    transport,
+    device: id,
+    snapshot: () => ({ ...(host ?? newMatch()), holes: state.holes }),
+    onRemote: (ops) => (state.holes = applyChanges(state.holes, ops)),
+    onSnapshot: host
+      ? undefined
+      : (s) => {
+          state.holes = s.holes;
+          state.adopted = true;
+        },
+    onConflict: (c) => state.conflicts.push(c),
+  });
+  const update = (hi: number, next: HoleState) => {
+    session.edit(holeChanges(hi, state.holes[hi], next));
+    state.holes = state.holes.map((h, i) => (i === hi ? next : h));
+  };
+  return { state, session, update };
+}
+
+test("hole edits become per-field changes and apply back", () => {
+  const before: HoleState = { ...newHole(), scores: { p1: 4, p2: 5 }, teamPicks: { p1: "T1" } };
+  const after: HoleState = { ...before, par: 3, scores: { p1: 4, p3: 6 }, teamPicks: { p1: "T2" } };
+  const changes = holeChanges(2, before, after);
+  expect(changes).toEqual([
+    { path: "holes.2.par", value: 3 },
+    { path: "holes.2.scores.p2", value: null },
+    { path: "holes.2.scores.p3", value: 6 },
+    { path: "holes.2.teamPicks.p1", value: "T2" },
+  ]);
+  const holes = [newHole(), newHole(), before];
+  expect(applyChanges(holes, changes)[2]).toEqual(after);
+  expect(applyChanges(holes, [{ path: "holes.9.par", value: 3 }])).toBe(holes);
+});
+
+test("a longer or shorter card travels as a length change and the new holes' fields", () => {
+  const holes = [newHole(), { ...newHole(), par: 3 }];
+  const longer = [...holes, { ...newHole(), par: 5 }, newHole()];
+  const changes = cardChanges(holes, longer);
+  expect(changes).toEqual([
+    { path: "holes.length", value: 4 },
+    { path: "holes.2.par", value: 5 },
+  ]);
+  expect(applyChanges(holes, changes)).toEqual(longer);
+  expect(applyChanges(longer, cardChanges(longer, holes))).toEqual(holes);
+  expect(describePath("holes.length", [])).toBe("Number of holes");
+});
+
+test("a joiner adopts the room, then both carts score", () => {
+  const hub = memorySyncHub();
+  const host = newMatch();
+  const a = device(hub.connect(), "a", host);
+  a.update(0, { ...a.state.holes[0], scores: { [host.players[0].id]: 4 } });
+
+  const b = device(hub.connect(), "b");
+  b.session.join();
+  expect(b.state.adopted).toBe(true);
+  expect(b.state.holes).toEqual(a.state.holes);
+
+  b.update(0, { ...b.state.holes[0], scores: { ...b.state.holes[0].scores, [host.players[2].id]: 5 } });
+  // A playoff hole added on one cart shows up on the other
+  const playoff = [...a.state.holes, { ...newHole(), par: 3 }];
+  a.session.edit(cardChanges(a.state.holes, playoff));
+  a.state.holes = playoff;
+  a.update(1, { ...a.state.holes[1], teamPicks: { [host.players[0].id]: "T1" } });
+  expect(a.state.holes).toEqual(b.state.holes);
+  expect(a.state.holes[0].scores).toEqual({ [host.players[0].id]: 4, [host.players[2].id]: 5 });
+});
+
+test("concurrent edits converge on one value and the loser is told", () => {
+  const hub = memorySyncHub();
+  // Messages are held back so both edits happen before either is seen
+  const held: (() => void)[] = [];
+  const delayed = (t: SyncTransport): SyncTransport => ({ ...t, send: (m) => held.push(() => t.send(m)) });
+  const a = device(delayed(hub.connect()), "a", newMatch());
+  const b = device(delayed(hub.connect()), "b", newMatch());
+
+  a.update(0, { ...a.state.holes[0], scores: { p1: 4 } });
+  b.update(0, { ...b.state.holes[0], scores: { p1: 5 } });
+  held.forEach((f) => f());
+
+  expect(a.state.holes[0].scores).toEqual({ p1: 5 });
+  expect(b.state.holes[0].scores).toEqual({ p1: 5 });
+  expect(a.state.conflicts).toEqual([{ path: "holes.0.scores.p1", mine: 4, theirs: 5 }]);
+  expect(b.state.conflicts).toEqual([]);
+});
+
+test("a later edit that saw ours is not a conflict", () => {
+  const hub = memorySyncHub();
+  const a = device(hub.connect(), "a", newMatch());
+  const b = device(hub.connect(), "b", newMatch());
+  a.update(0, { ...a.state.holes[0], scores: { p1: 4 } });
+  b.update(0, { ...b.state.holes[0], scores: { p1: 3 } });
+  expect(a.state.holes[0].scores).toEqual({ p1: 3 });
+  expect(a.state.conflicts).toEqual([]);
+});
+
+test("conflict prompts name the field", () => {
+  const players = [{ id: "p1", name: "Ann", handicap: "" as const }];
+  expect(describePath("holes.2.scores.p1", players)).toBe("H3 Ann score");
+  expect(describePath("holes.0.par", players)).toBe("H1 par");
+});
+
+test("a relay server that isn't a websocket address is refused", () => {
+  expect(() => roomTransport("ABCD", "https://relay.example.com")).toThrow(/ws:\/\/ or wss:\/\//);
+  expect(() => roomTransport("ABCD", "relay")).toThrow(/ws:\/\/ or wss:\/\//);
+});
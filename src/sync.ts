@@ -0,0 +1,307 @@
+import { parseDotKey } from "./junk";
+import { Bet, HoleState, isRecord, newHole, Player, playerNames, resizeHoles, Settings } from "./match";
+
+// ---------- Types ----------
+// Every hole edit becomes one operation per changed field. Fields are
+// addressed by path ("holes.3.scores.p1", or "holes.length" for the number
+// of holes) and merged last-writer-wins on a
+// Lamport clock, ties going to the higher device id, so every device ends up
+// with the same value whatever order operations arrive in.
+export type SyncValue = number | string | boolean | null;   // null = field cleared
+
+export type SyncOp = {
+  path: string;
+  value: SyncValue;
+  clock: number;
+  device: string;
+  base: string;                     // the op this one overwrote on its device ("clock@device"), "" if none
+};
+
+export type FieldChange = { path: string; value: SyncValue };
+
+// What a joining device adopts from the room: players, settings and bets
+// only change on the host's setup screen, so they travel once, on join.
+export type SyncSnapshot = {
+  players: Player[];
+  settings: Settings;
+  holes: HoleState[];
+  bets: Bet[];
+};
+
+export type SyncMessage =
+  | { type: "hello"; from: string }
+  | { type: "snapshot"; from: string; to: string; snapshot: SyncSnapshot; ops: SyncOp[] }
+  | { type: "ops"; from: string; ops: SyncOp[] };
+
+// Our edit to a field was overwritten by a concurrent edit from another device
+export type SyncConflict = {
+  path: string;
+  mine: SyncValue;
+  theirs: SyncValue;
+};
+
+// Moves messages between the devices in one room. Delivery to the sender
+// itself is not expected.
+export interface SyncTransport {
+  send(message: SyncMessage): void;
+  subscribe(handler: (message: SyncMessage) => void): () => void;
+  close(): void;
+}
+
+export type SyncSession = {
+  device: string;
+  edit(changes: FieldChange[]): SyncOp[];
+  join(): void;                     // ask the room for its current state
+  close(): void;
+};
+
+// ---------- Hole fields ----------
+const LENGTH = "holes.length";
+const KEYED = ["scores", "teamPicks", "extras"] as const;
+const PLAIN = ["par", "strokeIndex", "yardage"] as const;
+
+// Field-level changes between two versions of a hole
+export function holeChanges(hi: number, prev: HoleState, next: HoleState): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of PLAIN) {
+    if (prev[field] !== next[field]) changes.push({ path: `holes.${hi}.${field}`, value: next[field] });
+  }
+  for (const field of KEYED) {
+    const before: Record<string, SyncValue> = prev[field];
+    const after: Record<string, SyncValue> = next[field];
+    for (const key of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+      const value = key in after ? after[key] : null;
+      if (before[key] !== value) changes.push({ path: `holes.${hi}.${field}.${key}`, value });
+    }
+  }
+  return changes;
+}
+
+// Field-level changes between two versions of the card. A change in length
+// comes first, so the other devices have the holes before their fields
+// arrive; added holes are compared against blank ones, as they're added there.
+export function cardChanges(prev: HoleState[], next: HoleState[]): FieldChange[] {
+  const length: FieldChange[] = prev.length === next.length ? [] : [{ path: LENGTH, value: next.length }];
+  return [...length, ...next.flatMap((h, hi) => holeChanges(hi, prev[hi] ?? newHole(), h))];
+}
+
+// Apply field changes to the holes; paths that don't fit are ignored. The
+// same array comes back when nothing applied.
+export function applyChanges(holes: HoleState[], changes: FieldChange[]): HoleState[] {
+  let out = holes;
+  for (const { path, value } of changes) {
+    if (path === LENGTH) {
+      if (typeof value === "number" && value !== out.length) out = resizeHoles(out, value);
+      continue;
+    }
+    const [root, index, field, key] = path.split(".");
+    const hi = Number(index);
+    if (root !== "holes" || !Number.isInteger(hi) || !out[hi]) continue;
+    const hole = out[hi];
+    let next: HoleState | null = null;
+    if ((PLAIN as readonly string[]).includes(field) && key === undefined) {
+      if (typeof value === "number" || value === "") next = { ...hole, [field]: value };
+    } else if ((KEYED as readonly string[]).includes(field) && key) {
+      const { [key]: _old, ...rest } = hole[field as (typeof KEYED)[number]] as Record<string, unknown>;
+      next = { ...hole, [field]: value === null ? rest : { ...rest, [key]: value } };
+    }
+    if (next) out = out.map((h, i) => (i === hi ? next! : h));
+  }
+  return out;
+}
+
+// "H3 Ann score" for a conflict prompt
+export function describePath(path: string, players: Player[]): string {
+  if (path === LENGTH) return "Number of holes";
+  const [, index, field, key] = path.split(".");
+  const hole = `H${Number(index) + 1}`;
+  const name = key ? playerNames(players, [key])[0] || key : "";
+  if (field === "scores") return `${hole} ${name} score`;
+  if (field === "teamPicks") return `${hole} ${name} team`;
+  const dot = field === "extras" && parseDotKey(key);
+  if (dot) return `${hole} ${playerNames(players, [dot.playerId])[0] || dot.playerId} ${dot.betId} dots`;
+  if (field === "extras") return `${hole} ${key}`;
+  return `${hole} ${field}`;
+}
+
+// ---------- Session ----------
+export function newDeviceId(): string {
+  return "d" + Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+}
+
+const opKey = (op: SyncOp) => `${op.clock}@${op.device}`;
+
+function wins(a: SyncOp, b: SyncOp) {
+  return a.clock > b.clock || (a.clock === b.clock && a.device > b.device);
+}
+
+function isOp(v: unknown): v is SyncOp {
+  return (
+    isRecord(v) &&
+    typeof v.path === "string" &&
+    typeof v.clock === "number" &&
+    typeof v.device === "string" &&
+    typeof v.base === "string" &&
+    (v.value === null || ["number", "string", "boolean"].includes(typeof v.value))
+  );
+}
+
+// One device's view of a room. A session that hosts (has `snapshot`) answers
+// joiners with the current state; a joining session adopts the first answer
+// through `onSnapshot` and can answer later joiners itself.
+export function createSyncSession({
+  transport,
+  device = newDeviceId(),
+  snapshot,
+  onRemote,
+  onSnapshot,
+  onConflict,
+}: {
+  transport: SyncTransport;
+  device?: string;
+  snapshot?: () => SyncSnapshot;
+  onRemote: (ops: SyncOp[]) => void;
+  onSnapshot?: (snapshot: SyncSnapshot) => void;
+  onConflict?: (conflict: SyncConflict) => void;
+}): SyncSession {
+  const registers = new Map<string, SyncOp>();   // winning op per field
+  let clock = 0;
+  let ready = !!snapshot && !onSnapshot;         // holds state worth sharing
+
+  const merge = (ops: SyncOp[]) => {
+    const accepted: SyncOp[] = [];
+    for (const op of ops) {
+      clock = Math.max(clock, op.clock);
+      const current = registers.get(op.path);
+      if (current && !wins(op, current)) continue;
+      // Written without having seen our edit, and it disagrees
+      if (current && current.device === device && op.base !== opKey(current) && current.value !== op.value) {
+        onConflict?.({ path: op.path, mine: current.value, theirs: op.value });
+      }
+      registers.set(op.path, op);
+      accepted.push(op);
+    }
+    return accepted;
+  };
+
+  const unsubscribe = transport.subscribe((msg) => {
+    if (!isRecord(msg) || msg.from === device) return;
+    if (msg.type === "hello" && ready && snapshot) {
+      const ops = Array.from(registers.values());
+      transport.send({ type: "snapshot", from: device, to: msg.from, snapshot: snapshot(), ops });
+    } else if (msg.type === "snapshot" && msg.to === device && !ready && isRecord(msg.snapshot)) {
+      ready = true;
+      merge(Array.isArray(msg.ops) ? msg.ops.filter(isOp) : []);
+      onSnapshot?.(msg.snapshot);
+    } else if (msg.type === "ops" && Array.isArray(msg.ops)) {
+      const accepted = merge(msg.ops.filter(isOp));
+      if (accepted.length > 0) onRemote(accepted);
+    }
+  });
+
+  return {
+    device,
+    edit: (changes) => {
+      const ops = changes.map((c): SyncOp => {
+        const current = registers.get(c.path);
+        return { ...c, clock: ++clock, device, base: current ? opKey(current) : "" };
+      });
+      ops.forEach((op) => registers.set(op.path, op));
+      if (ops.length > 0) transport.send({ type: "ops", from: device, ops });
+      return ops;
+    },
+    join: () => transport.send({ type: "hello", from: device }),
+    close: () => {
+      unsubscribe();
+      transport.close();
+    },
+  };
+}
+
+// ---------- Transports ----------
+// Transports throw when they can't be set up, with a message to show
+
+// Tabs of the same browser; handy on one device and for trying things out
+export function broadcastChannelTransport(room: string): SyncTransport {
+  if (typeof BroadcastChannel === "undefined") {
+    throw new Error("This browser can't share a room between tabs. Enter a relay server.");
+  }
+  const channel = new BroadcastChannel(`sideBets:${room}`);
+  return {
+    send: (message) => channel.postMessage(message),
+    subscribe: (handler) => {
+      const listener = (e: MessageEvent) => handler(e.data);
+      channel.addEventListener("message", listener);
+      return () => channel.removeEventListener("message", listener);
+    },
+    close: () => channel.close(),
+  };
+}
+
+// Any relay that forwards each JSON text frame to the other sockets that
+// connected with the same `room` query parameter. Messages sent before the
+// socket opens are queued.
+export function webSocketTransport(url: string, room: string): SyncTransport {
+  if (!/^wss?:\/\//i.test(url)) throw new Error(`The relay server must be a ws:// or wss:// address, not "${url}".`);
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(`${url}${url.includes("?") ? "&" : "?"}room=${encodeURIComponent(room)}`);
+  } catch {
+    throw new Error(`"${url}" isn't a relay server address.`);
+  }
+  const queue: string[] = [];
+  socket.addEventListener("open", () => queue.splice(0).forEach((m) => socket.send(m)));
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) socket.send(data);
+      else queue.push(data);
+    },
+    subscribe: (handler) => {
+      const listener = (e: MessageEvent) => {
+        try {
+          handler(JSON.parse(e.data));
+        } catch {
+          // Not ours
+        }
+      };
+      socket.addEventListener("message", listener);
+      return () => socket.removeEventListener("message", listener);
+    },
+    close: () => socket.close(),
+  };
+}
+
+// In-memory stand-in for a relay: every connection hears every other one.
+// Messages are copied through JSON as they would be on the wire.
+export function memorySyncHub() {
+  const peers = new Set<(message: SyncMessage) => void>();
+  return {
+    connect(): SyncTransport {
+      const handlers = new Set<(message: SyncMessage) => void>();
+      const deliver = (message: SyncMessage) => handlers.forEach((h) => h(message));
+      peers.add(deliver);
+      return {
+        send: (message) => {
+          const wire = JSON.stringify(message);
+          peers.forEach((p) => p !== deliver && p(JSON.parse(wire)));
+        },
+        subscribe: (handler) => {
+          handlers.add(handler);
+          return () => handlers.delete(handler);
+        },
+        close: () => peers.delete(deliver),
+      };
+    },
+  };
+}
+
+export function roomTransport(room: string, server: string): SyncTransport {
+  return server.trim() ? webSocketTransport(server.trim(), room) : broadcastChannelTransport(room);
+}
+
+// Short enough to read out across a fairway; no I or O to mistake for 1 and 0
+export function newRoomCode(): string {
+  const letters = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+  return Array.from({ length: 4 }, () => letters[Math.floor(Math.random() * letters.length)]).join("");
+}
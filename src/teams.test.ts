@@ -0,0 +1,100 @@
+import { newHole, Player } from "./match";
+import {
+  allSplits,
+  applySchedule,
+  balancedSplit,
+  buildSchedule,
+  describeSplit,
+  handicapSplit,
+  rotationSchedule,
+  segmentRanges,
+  TeamSplit,
+} from "./teams";
+
+const roster = (handicaps: (number | "")[]): Player[] =>
+  handicaps.map((handicap, i) => ({ id: `p${i + 1}`, name: "ABCDEFGHIJKL"[i], handicap }));
+
+const sizes = (split: TeamSplit) => {
+  const sides = Object.values(split);
+  return [sides.filter((s) => s === "T1").length, sides.filter((s) => s === "T2").length];
+};
+
+test("balanced random teams never differ by more than one", () => {
+  for (let n = 2; n <= 12; n++) {
+    const ids = roster(Array(n).fill("")).map((p) => p.id);
+    for (let trial = 0; trial < 20; trial++) {
+      const [t1, t2] = sizes(balancedSplit(ids));
+      expect(t1 + t2).toBe(n);
+      expect(t1 - t2).toBeGreaterThanOrEqual(0);
+      expect(t1 - t2).toBeLessThanOrEqual(1);
+    }
+  }
+});
+
+test("the random draw follows the generator", () => {
+  const ids = ["a", "b", "c", "d"];
+  expect(balancedSplit(ids, () => 0)).toEqual({ b: "T1", c: "T1", d: "T2", a: "T2" });
+});
+
+test("every distinct split, without mirror images", () => {
+  const four = roster(["", "", "", ""]);
+  expect(allSplits(four.map((p) => p.id)).map((s) => describeSplit(s, four))).toEqual([
+    "A & B vs C & D",
+    "A & C vs B & D",
+    "A & D vs B & C",
+  ]);
+  expect(allSplits(["a", "b", "c"])).toHaveLength(3);
+  expect(allSplits(["a", "b", "c", "d", "e", "f"])).toHaveLength(10);
+  expect(allSplits(["a"])).toEqual([]);
+});
+
+test("four players over 18 holes rotate every six", () => {
+  const schedule = rotationSchedule(["p1", "p2", "p3", "p4"], 0, 17);
+  expect(schedule.map(({ from, to }) => [from, to])).toEqual([
+    [0, 5],
+    [6, 11],
+    [12, 17],
+  ]);
+});
+
+test("a rotation partners everyone equally", () => {
+  const ids = ["p1", "p2", "p3", "p4", "p5", "p6"];
+  const partnered = new Map<string, number>();
+  for (const { split } of rotationSchedule(ids, 0, 99)) {
+    for (const a of ids) for (const b of ids) {
+      if (a < b && split[a] === split[b]) partnered.set(a + b, (partnered.get(a + b) ?? 0) + 1);
+    }
+  }
+  expect(partnered.size).toBe(15);
+  expect(new Set(partnered.values()).size).toBe(1);
+});
+
+test("segment runs differ by at most one hole", () => {
+  expect(segmentRanges(0, 8, 2)).toEqual([
+    { from: 0, to: 4 },
+    { from: 5, to: 8 },
+  ]);
+  expect(segmentRanges(9, 10, 5)).toEqual([
+    { from: 9, to: 9 },
+    { from: 10, to: 10 },
+  ]);
+});
+
+test("handicap pairing evens out the totals", () => {
+  const players = roster([2, 20, 10, 12]);
+  const split = handicapSplit(players);
+  expect(describeSplit(split, players)).toBe("A & B vs C & D");
+  expect(sizes(handicapSplit(roster([0, 5, "", 9, 30])))).toEqual([3, 2]);
+});
+
+test("schedules lock teams into the chosen holes only", () => {
+  const players = roster(["", "", "", ""]);
+  const holes = Array.from({ length: 4 }, newHole);
+  holes[0].teamPicks = { p1: "T2" };
+  const out = applySchedule(holes, buildSchedule("handicap", players, 1, 2));
+  expect(out[0].teamPicks).toEqual({ p1: "T2" });
+  expect(out[1].teamPicks).toEqual({ p1: "T1", p2: "T1", p3: "T2", p4: "T2" });
+  expect(out[2].teamPicks).toEqual(out[1].teamPicks);
+  expect(out[3].teamPicks).toEqual({});
+  expect(buildSchedule("random", players.slice(0, 1), 0, 3)).toEqual([]);
+});
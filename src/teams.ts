@@ -0,0 +1,126 @@
+import { HoleState, Player, TeamPick } from "./match";
+
+// ---------- Types ----------
+export type Side = Exclude<TeamPick, "Sit">;
+
+export type TeamSplit = Record<string, Side>;   // by player id; anyone missing sits
+
+export type TeamMode = "random" | "rotation" | "handicap";
+
+// One set of teams locked in over holes `from`..`to` (indices, inclusive)
+export type TeamSegment = { from: number; to: number; split: TeamSplit };
+
+// ---------- Splits ----------
+// T1 takes the bigger half when the count is odd, so sizes never differ by more than one
+const t1Size = (n: number) => Math.ceil(n / 2);
+
+function splitOf(ids: string[], onT1: (i: number) => boolean): TeamSplit {
+  return Object.fromEntries(ids.map((id, i) => [id, onT1(i) ? "T1" : "T2"]));
+}
+
+export function shuffled<T>(items: T[], random = Math.random): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+export function balancedSplit(ids: string[], random = Math.random): TeamSplit {
+  const order = shuffled(ids, random);
+  return splitOf(order, (i) => i < t1Size(ids.length));
+}
+
+// Bitmasks of every way to put `k` of `n` players on T1
+function t1Masks(n: number, k: number): number[] {
+  const masks: number[] = [];
+  for (let mask = 0; mask < 1 << n; mask++) {
+    let bits = 0;
+    for (let m = mask; m; m &= m - 1) bits++;
+    if (bits === k) masks.push(mask);
+  }
+  return masks;
+}
+
+// Every distinct pair of teams. With an even count the mirror image of a
+// split is the same match, so the first player is kept on T1.
+export function allSplits(ids: string[]): TeamSplit[] {
+  const n = ids.length;
+  if (n < 2) return [];
+  return t1Masks(n, t1Size(n))
+    .filter((mask) => n % 2 === 1 || mask & 1)
+    .map((mask) => splitOf(ids, (i) => (mask & (1 << i)) !== 0));
+}
+
+// The split whose handicap totals are closest; blank handicaps count as 0.
+// Ties go to the first split found, so the result is repeatable.
+export function handicapSplit(players: Player[]): TeamSplit {
+  const hcp = (p: Player) => (typeof p.handicap === "number" ? p.handicap : 0);
+  const ids = players.map((p) => p.id);
+  let best: TeamSplit = {};
+  let bestGap = Infinity;
+  for (const split of allSplits(ids)) {
+    const gap = Math.abs(players.reduce((sum, p) => sum + (split[p.id] === "T1" ? hcp(p) : -hcp(p)), 0));
+    if (gap < bestGap) {
+      best = split;
+      bestGap = gap;
+    }
+  }
+  return best;
+}
+
+// ---------- Schedules ----------
+// Holes `from`..`to` cut into `count` runs as even as possible, longer runs first
+export function segmentRanges(from: number, to: number, count: number): { from: number; to: number }[] {
+  const holes = to - from + 1;
+  const n = Math.max(1, Math.min(count, holes));
+  const ranges: { from: number; to: number }[] = [];
+  let start = from;
+  for (let k = 0; k < n; k++) {
+    const len = Math.floor(holes / n) + (k < holes % n ? 1 : 0);
+    ranges.push({ from: start, to: start + len - 1 });
+    start += len;
+  }
+  return ranges;
+}
+
+// Everyone partners everyone equally: each distinct split gets an equal run
+// of holes (4 players over 18 holes: three 6-hole rotations). With more
+// splits than holes only the first ones fit and the balance is lost.
+export function rotationSchedule(ids: string[], from: number, to: number): TeamSegment[] {
+  const splits = allSplits(ids);
+  return segmentRanges(from, to, splits.length).map((r, k) => ({ ...r, split: splits[k] }));
+}
+
+export function buildSchedule(
+  mode: TeamMode,
+  players: Player[],
+  from: number,
+  to: number,
+  random = Math.random
+): TeamSegment[] {
+  const ids = players.map((p) => p.id);
+  if (ids.length < 2 || to < from) return [];
+  if (mode === "rotation") return rotationSchedule(ids, from, to);
+  const split = mode === "handicap" ? handicapSplit(players) : balancedSplit(ids, random);
+  return [{ from, to, split }];
+}
+
+// Write each segment's teams into `teamPicks`; holes outside every segment are untouched
+export function applySchedule(holes: HoleState[], segments: TeamSegment[]): HoleState[] {
+  return holes.map((h, hi) => {
+    const seg = segments.find((s) => hi >= s.from && hi <= s.to);
+    return seg ? { ...h, teamPicks: { ...seg.split } } : h;
+  });
+}
+
+// "Ann & Bob vs Cat & Dan"
+export function describeSplit(split: TeamSplit, players: Player[]): string {
+  const side = (team: Side) =>
+    players
+      .filter((p) => split[p.id] === team)
+      .map((p) => p.name)
+      .join(" & ");
+  return `${side("T1")} vs ${side("T2")}`;
+}
@@ -0,0 +1,97 @@
+import React from "react";
+
+// ---------- UI Primitives ----------
+export function Label({ htmlFor, children }: { htmlFor?: string; children: React.ReactNode }) {
+  return <label htmlFor={htmlFor} className="text-sm font-medium text-gray-700">{children}</label>;
+}
+
+export function Toggle({ checked, onChange }: { checked: boolean; onChange: (v: boolean) => void }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!checked)}
+      className={
+        "relative inline-flex h-6 w-11 items-center rounded-full transition " +
+        (checked ? "bg-green-600" : "bg-gray-300")
+      }
+      aria-pressed={checked}
+    >
+      <span
+        className={
+          "inline-block h-5 w-5 transform rounded-full bg-white transition " +
+          (checked ? "translate-x-5" : "translate-x-1")
+        }
+      />
+    </button>
+  );
+}
+
+// Mobile-friendly numeric input that can be cleared (crucial for iOS)
+export function NumberField({
+  value,
+  step = 1,
+  min,
+  onChange,
+  className = "",
+  label,
+}: {
+  value: number | "";
+  step?: number;
+  min?: number;
+  onChange: (v: number | "") => void;
+  className?: string;
+  label?: string;
+}) {
+  return (
+    <input
+      type="text"
+      aria-label={label}
+      inputMode="numeric"
+      pattern="[0-9]*"
+      value={value}
+      onChange={(e) => {
+        const val = e.target.value;
+        if (val === "") {
+          onChange("");
+          return;
+        }
+        const num = Number(val);
+        if (!Number.isNaN(num)) {
+          if (min !== undefined && num < min) onChange(min);
+          else onChange(num);
+        }
+      }}
+      className={
+        "w-full rounded-md border border-gray-300 px-2 py-2 text-lg outline-none focus:ring-2 focus:ring-indigo-500 " +
+        className
+      }
+    />
+  );
+}
+
+export function Select({
+  value,
+  onChange,
+  options,
+  label,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  options: { label: string; value: string }[];
+  label?: string;
+}) {
+  return (
+    <select
+      value={value}
+      aria-label={label}
+      onChange={(e) => onChange(e.target.value)}
+      className="rounded-md border border-gray-300 px-2 py-2 text-lg outline-none focus:ring-2 focus:ring-indigo-500"
+    >
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+}
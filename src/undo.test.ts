@@ -0,0 +1,152 @@
+import { newMatch } from "./match";
+import {
+  appendAudit,
+  AUDIT_STORAGE_KEY,
+  AuditEntry,
+  changeText,
+  describeChanges,
+  Edit,
+  EMPTY_UNDO,
+  loadAuditLog,
+  MatchSnapshot,
+  pushEdit,
+  redoEdit,
+  replayEdit,
+  saveAuditLog,
+  undoEdit,
+} from "./undo";
+
+beforeEach(() => localStorage.clear());
+
+function snapshot(): MatchSnapshot {
+  const { players, settings, holes, courseName, bets } = newMatch();
+  return { players, settings, holes, courseName, bets };
+}
+
+// `m` with one player's score on one hole changed
+function scored(m: MatchSnapshot, hi: number, pi: number, score: number | ""): MatchSnapshot {
+  const id = m.players[pi].id;
+  return { ...m, holes: m.holes.map((h, i) => (i === hi ? { ...h, scores: { ...h.scores, [id]: score } } : h)) };
+}
+
+const edit = (before: MatchSnapshot, after: MatchSnapshot, at: number, source = "You"): Edit => ({
+  at,
+  source,
+  before,
+  after,
+  changes: describeChanges(before, after),
+});
+
+test("describes hole, player and setting changes in plain words", () => {
+  const m = snapshot();
+  const later = {
+    ...scored(scored(m, 2, 0, 5), 2, 0, 4),
+    players: m.players.map((p, i) => (i === 1 ? { ...p, handicap: 12 } : p)),
+    settings: { ...m.settings, wager: 5 },
+  };
+  expect(describeChanges(m, later).map(changeText)).toEqual([
+    "B handicap – → 12",
+    "Setting wager 1 → 5",
+    "H3 A score – → 4",
+  ]);
+  expect(describeChanges(m, m)).toEqual([]);
+});
+
+test("team picks read as Sit when unset", () => {
+  const m = snapshot();
+  const id = m.players[0].id;
+  const picked = { ...m, holes: m.holes.map((h, i) => (i === 0 ? { ...h, teamPicks: { [id]: "T1" as const } } : h)) };
+  expect(describeChanges(m, picked).map(changeText)).toEqual(["H1 A team Sit → T1"]);
+});
+
+test("side bets read by name", () => {
+  const m = snapshot();
+  const [a, b, c] = m.players.map((p) => p.id);
+  const bet = { id: "b1", name: "Skins", playerIds: [a, b], settings: m.settings };
+  const added = { ...m, bets: [bet] };
+  const edited = { ...m, bets: [{ ...bet, playerIds: [a, b, c], settings: { ...m.settings, wager: 2 } }] };
+  expect(describeChanges(m, added).map(changeText)).toEqual(["Added bet Skins"]);
+  expect(describeChanges(added, edited).map(changeText)).toEqual(["Bet Skins players A, B → A, B, C", "Bet Skins wager 1 → 2"]);
+  expect(describeChanges(edited, m).map(changeText)).toEqual(["Removed bet Skins"]);
+});
+
+test("quick edits to the same field fold into one undo step", () => {
+  const m = snapshot();
+  const a = scored(m, 0, 0, 1);
+  const b = scored(a, 0, 0, 12);
+  let state = pushEdit(EMPTY_UNDO, edit(m, a, 0));
+  state = pushEdit(state, edit(a, b, 500));
+  expect(state.past).toHaveLength(1);
+  expect(state.past[0].changes.map(changeText)).toEqual(["H1 A score – → 12"]);
+
+  // A different field, or the same one much later, is its own step
+  const c = scored(b, 0, 1, 4);
+  state = pushEdit(state, edit(b, c, 600));
+  state = pushEdit(state, edit(c, scored(c, 0, 1, 5), 60_000));
+  expect(state.past).toHaveLength(3);
+});
+
+test("typing a field back to where it started leaves nothing to undo", () => {
+  const m = snapshot();
+  const a = scored(m, 0, 0, 4);
+  const state = pushEdit(pushEdit(EMPTY_UNDO, edit(m, a, 0)), edit(a, scored(a, 0, 0, ""), 100));
+  expect(state.past).toEqual([]);
+});
+
+test("undo and redo move edits between the stacks; a new edit drops the redo trail", () => {
+  const m = snapshot();
+  const a = scored(m, 0, 0, 4);
+  let state = pushEdit(EMPTY_UNDO, edit(m, a, 0));
+  const undone = undoEdit(state)!;
+  expect(undone.edit.after).toBe(a);
+  expect(undone.state).toEqual({ past: [], future: [state.past[0]] });
+  expect(undoEdit(undone.state)).toBeNull();
+
+  const redone = redoEdit(undone.state)!;
+  expect(redone.state.past).toHaveLength(1);
+  expect(redoEdit(redone.state)).toBeNull();
+
+  state = pushEdit(undone.state, edit(m, scored(m, 1, 0, 3), 10_000));
+  expect(state.future).toEqual([]);
+});
+
+test("undoing one edit keeps later edits to other fields", () => {
+  const m = snapshot();
+  const a = scored(m, 0, 0, 9);
+  const later = { ...scored(a, 4, 2, 5), settings: { ...a.settings, wager: 2 } };
+  const back = replayEdit(later, a, m);
+  expect(back.holes[0].scores[m.players[0].id]).toBeUndefined();
+  expect(back.holes[4].scores[m.players[2].id]).toBe(5);
+  expect(back.settings.wager).toBe(2);
+  expect(replayEdit(back, m, a).holes[0].scores[m.players[0].id]).toBe(9);
+});
+
+test("the audit log folds repeats but keeps undos as their own entries", () => {
+  const m = snapshot();
+  const a = scored(m, 0, 0, 1);
+  const b = scored(a, 0, 0, 12);
+  const entry = (before: MatchSnapshot, after: MatchSnapshot, at: number, kind: AuditEntry["kind"] = "edit") => ({
+    at,
+    source: "You",
+    kind,
+    changes: describeChanges(before, after),
+  });
+  let log = appendAudit([], entry(m, a, 0));
+  log = appendAudit(log, entry(a, b, 500));
+  log = appendAudit(log, entry(m, b, 900, "undo"));
+  expect(log.map((e) => [e.kind, e.changes.map(changeText)])).toEqual([
+    ["edit", ["H1 A score – → 12"]],
+    ["undo", ["H1 A score – → 12"]],
+  ]);
+});
+
+test("the audit log round-trips through storage and skips junk", () => {
+  const log: AuditEntry[] = [{ at: 1, source: "Device ab12", kind: "edit", changes: [{ key: "k", label: "H1 par", from: "4", to: "5" }] }];
+  saveAuditLog(log);
+  expect(loadAuditLog()).toEqual(log);
+
+  localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify([{ at: "x" }, ...log]));
+  expect(loadAuditLog()).toEqual(log);
+  localStorage.setItem(AUDIT_STORAGE_KEY, "{not json");
+  expect(loadAuditLog()).toEqual([]);
+});
@@ -0,0 +1,255 @@
+import { Bet, HoleState, isRecord, MatchState, Player, Settings } from "./match";
+import { parseDotKey } from "./junk";
+import { applyChanges, holeChanges } from "./sync";
+
+// ---------- Types ----------
+// The part of a match that edits change. Screen and current hole are
+// navigation, not edits, so undo leaves them alone.
+export type MatchSnapshot = Pick<MatchState, "players" | "settings" | "holes" | "courseName" | "bets">;
+
+// One field that changed. `key` identifies the field so repeated edits to
+// it (typing a name a letter at a time) fold into one step. `from`/`to` are
+// blank for changes that are just an event ("Added player E").
+export type Change = { key: string; label: string; from: string; to: string };
+
+export type Edit = {
+  at: number;                       // ms since epoch
+  source: string;                   // "You", or the device it came from
+  before: MatchSnapshot;
+  after: MatchSnapshot;
+  changes: Change[];
+};
+
+export type UndoState = { past: Edit[]; future: Edit[] };
+
+export type AuditEntry = {
+  at: number;
+  source: string;
+  kind: "edit" | "undo" | "redo";
+  changes: Change[];
+};
+
+export const EMPTY_UNDO: UndoState = { past: [], future: [] };
+export const COALESCE_MS = 2000;
+export const MAX_UNDO = 200;
+export const MAX_AUDIT = 500;
+export const AUDIT_STORAGE_KEY = "matchLog";
+
+// ---------- Describing changes ----------
+const show = (v: unknown): string => (v === "" || v === undefined || v === null ? "–" : typeof v === "object" ? "edited" : String(v));
+
+function nameOf(id: string, ...rosters: Player[][]): string {
+  for (const roster of rosters) {
+    const name = roster.find((p) => p.id === id)?.name.trim();
+    if (name) return name;
+  }
+  return "?";
+}
+
+function describeHole(hi: number, a: HoleState, b: HoleState, names: (id: string) => string): Change[] {
+  const out: Change[] = [];
+  const h = `H${hi + 1}`;
+  for (const field of ["par", "strokeIndex", "yardage"] as const) {
+    if (a[field] !== b[field]) {
+      const label = field === "strokeIndex" ? "stroke index" : field;
+      out.push({ key: `${h}.${field}`, label: `${h} ${label}`, from: show(a[field]), to: show(b[field]) });
+    }
+  }
+  const keyed = [
+    ["scores", "score"],
+    ["teamPicks", "team"],
+  ] as const;
+  for (const [field, label] of keyed) {
+    const before: Record<string, unknown> = a[field];
+    const after: Record<string, unknown> = b[field];
+    for (const id of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+      const was = field === "teamPicks" ? before[id] ?? "Sit" : before[id];
+      const now = field === "teamPicks" ? after[id] ?? "Sit" : after[id];
+      if (was !== now && show(was) !== show(now)) {
+        out.push({ key: `${h}.${field}.${id}`, label: `${h} ${names(id)} ${label}`, from: show(was), to: show(now) });
+      }
+    }
+  }
+  for (const key of Array.from(new Set([...Object.keys(a.extras), ...Object.keys(b.extras)]))) {
+    if (a.extras[key] !== b.extras[key]) {
+      const dot = parseDotKey(key);
+      const label = dot ? `${h} ${names(dot.playerId)} ${dot.betId} dots` : `${h} ${key}`;
+      out.push({ key: `${h}.extras.${key}`, label, from: show(a.extras[key]), to: show(b.extras[key]) });
+    }
+  }
+  return out;
+}
+
+function playerChanges(a: Player[], b: Player[]): Change[] {
+  const out: Change[] = [];
+  for (const p of b) {
+    const old = a.find((x) => x.id === p.id);
+    if (!old) {
+      out.push({ key: `player.${p.id}`, label: `Added player ${p.name.trim() || "(blank)"}`, from: "", to: "" });
+      continue;
+    }
+    if (old.name !== p.name) {
+      out.push({ key: `player.${p.id}.name`, label: "Player name", from: show(old.name.trim()), to: show(p.name.trim()) });
+    }
+    if (old.handicap !== p.handicap) {
+      out.push({ key: `player.${p.id}.handicap`, label: `${nameOf(p.id, b)} handicap`, from: show(old.handicap), to: show(p.handicap) });
+    }
+  }
+  for (const p of a) {
+    if (!b.some((x) => x.id === p.id)) {
+      out.push({ key: `player.${p.id}`, label: `Removed player ${p.name.trim() || "(blank)"}`, from: "", to: "" });
+    }
+  }
+  if (out.length === 0 && a.map((p) => p.id).join() !== b.map((p) => p.id).join()) {
+    out.push({ key: "players.order", label: "Players reordered", from: "", to: "" });
+  }
+  return out;
+}
+
+function settingChanges(a: Settings, b: Settings, prefix = "settings", label = "Setting"): Change[] {
+  return (Object.keys(b) as (keyof Settings)[])
+    .filter((k) => JSON.stringify(a[k]) !== JSON.stringify(b[k]))
+    .map((k) => ({ key: `${prefix}.${k}`, label: `${label} ${k}`, from: show(a[k]), to: show(b[k]) }));
+}
+
+function betChanges(a: Bet[], b: Bet[], names: (id: string) => string): Change[] {
+  const out: Change[] = [];
+  const title = (bet: Bet) => bet.name.trim() || "(unnamed)";
+  b.forEach((bet) => {
+    const old = a.find((x) => x.id === bet.id);
+    const key = `bet.${bet.id}`;
+    if (!old) {
+      out.push({ key, label: `Added bet ${title(bet)}`, from: "", to: "" });
+      return;
+    }
+    if (old.name !== bet.name) out.push({ key: `${key}.name`, label: "Bet name", from: show(old.name.trim()), to: show(bet.name.trim()) });
+    if (old.playerIds.join() !== bet.playerIds.join()) {
+      const who = (x: Bet) => x.playerIds.map(names).join(", ");
+      out.push({ key: `${key}.players`, label: `Bet ${title(bet)} players`, from: show(who(old)), to: show(who(bet)) });
+    }
+    if (old.settings !== bet.settings) out.push(...settingChanges(old.settings, bet.settings, `${key}.settings`, `Bet ${title(bet)}`));
+  });
+  for (const bet of a) {
+    if (!b.some((x) => x.id === bet.id)) out.push({ key: `bet.${bet.id}`, label: `Removed bet ${title(bet)}`, from: "", to: "" });
+  }
+  return out;
+}
+
+export function describeChanges(before: MatchSnapshot, after: MatchSnapshot): Change[] {
+  const names = (id: string) => nameOf(id, after.players, before.players);
+  const out: Change[] = [];
+  if (before.courseName !== after.courseName) {
+    out.push({ key: "courseName", label: "Course", from: show(before.courseName), to: show(after.courseName) });
+  }
+  if (before.players !== after.players) out.push(...playerChanges(before.players, after.players));
+  if (before.settings !== after.settings) out.push(...settingChanges(before.settings, after.settings));
+  if (before.bets !== after.bets) out.push(...betChanges(before.bets, after.bets, names));
+  if (before.holes !== after.holes) {
+    if (before.holes.length !== after.holes.length) {
+      out.push({ key: "holes.length", label: "Holes", from: String(before.holes.length), to: String(after.holes.length) });
+    }
+    const shared = Math.min(before.holes.length, after.holes.length);
+    for (let hi = 0; hi < shared; hi++) {
+      if (before.holes[hi] !== after.holes[hi]) out.push(...describeHole(hi, before.holes[hi], after.holes[hi], names));
+    }
+  }
+  return out;
+}
+
+// "H3 Ann score 4 → 5"
+export function changeText(c: Change): string {
+  return c.from === "" && c.to === "" ? c.label : `${c.label} ${c.from} → ${c.to}`;
+}
+
+// ---------- Undo stack ----------
+const sameKeys = (a: Change[], b: Change[]) => a.map((c) => c.key).join("|") === b.map((c) => c.key).join("|");
+
+// Record an edit; a quick follow-up to the same fields from the same source
+// extends the last step instead of adding one. Any redo trail is dropped.
+export function pushEdit(state: UndoState, edit: Edit, coalesceMs = COALESCE_MS): UndoState {
+  const last = state.past[state.past.length - 1];
+  if (last && last.source === edit.source && edit.at - last.at <= coalesceMs && sameKeys(last.changes, edit.changes)) {
+    const changes = describeChanges(last.before, edit.after);
+    const past = state.past.slice(0, -1);
+    // Typed back to where it started: nothing left to undo
+    return { past: changes.length ? [...past, { ...edit, before: last.before, changes }] : past, future: [] };
+  }
+  return { past: [...state.past, edit].slice(-MAX_UNDO), future: [] };
+}
+
+export function undoEdit(state: UndoState): { state: UndoState; edit: Edit } | null {
+  const edit = state.past[state.past.length - 1];
+  if (!edit) return null;
+  return { state: { past: state.past.slice(0, -1), future: [edit, ...state.future] }, edit };
+}
+
+export function redoEdit(state: UndoState): { state: UndoState; edit: Edit } | null {
+  const [edit, ...rest] = state.future;
+  if (!edit) return null;
+  return { state: { past: [...state.past, edit], future: rest }, edit };
+}
+
+// Move the fields an edit touched from `from` to `to` on top of `current`,
+// so undoing one step keeps later edits to other fields, including ones
+// that arrived from other devices. A change of hole count swaps the card.
+export function replayEdit(current: MatchSnapshot, from: MatchSnapshot, to: MatchSnapshot): MatchSnapshot {
+  const pick = <K extends keyof MatchSnapshot>(k: K): MatchSnapshot[K] => (from[k] === to[k] ? current[k] : to[k]);
+  let holes = current.holes;
+  if (from.holes !== to.holes) {
+    const sameCard = from.holes.length === to.holes.length && current.holes.length === to.holes.length;
+    holes = sameCard
+      ? applyChanges(current.holes, to.holes.flatMap((h, hi) => holeChanges(hi, from.holes[hi], h)))
+      : to.holes;
+  }
+  return { players: pick("players"), settings: pick("settings"), holes, courseName: pick("courseName"), bets: pick("bets") };
+}
+
+// ---------- Audit log ----------
+// Append-only record of who changed what, undos included. Folds repeats
+// the same way the undo stack does.
+export function appendAudit(log: AuditEntry[], entry: AuditEntry, coalesceMs = COALESCE_MS): AuditEntry[] {
+  const last = log[log.length - 1];
+  if (
+    last &&
+    entry.kind === "edit" &&
+    last.kind === "edit" &&
+    last.source === entry.source &&
+    entry.at - last.at <= coalesceMs &&
+    sameKeys(last.changes, entry.changes)
+  ) {
+    // Keep each field's first "from" value and its latest "to" value
+    const changes = entry.changes.map((c, k) => ({ ...c, from: last.changes[k].from }));
+    return [...log.slice(0, -1), { ...entry, changes }];
+  }
+  return [...log, entry].slice(-MAX_AUDIT);
+}
+
+const KINDS: AuditEntry["kind"][] = ["edit", "undo", "redo"];
+const isKind = (v: unknown): v is AuditEntry["kind"] => KINDS.some((k) => k === v);
+
+const isChange = (v: unknown): v is Change =>
+  isRecord(v) && ["key", "label", "from", "to"].every((k) => typeof v[k] === "string");
+
+function normalizeAuditEntry(raw: unknown): AuditEntry | null {
+  if (!isRecord(raw) || typeof raw.at !== "number" || typeof raw.source !== "string") return null;
+  if (!isKind(raw.kind) || !Array.isArray(raw.changes)) return null;
+  return { at: raw.at, source: raw.source, kind: raw.kind, changes: raw.changes.filter(isChange) };
+}
+
+export function loadAuditLog(storage: Storage = localStorage): AuditEntry[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(AUDIT_STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeAuditEntry).filter((e): e is AuditEntry => e !== null);
+  } catch {
+    return [];
+  }
+}
+
+export function saveAuditLog(log: AuditEntry[], storage: Storage = localStorage): void {
+  try {
+    storage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(log));
+  } catch {
+    // Storage full or unavailable — the log is a convenience, keep playing
+  }
+}
@@ -0,0 +1,72 @@
+import { HoleState, Player } from "./match";
+import { newExplanation, strokeBounds } from "./scoring";
+import { holeBadge, missingScores, parProblem, scoreProblem, scoringProblems } from "./validation";
+
+const PLAYERS: Player[] = ["A", "B", "C", "D"].map((name, i) => ({ id: `p${i + 1}`, name, handicap: "" }));
+
+function hole(picks: string, scores: (number | "")[], par: number | "" = 4): HoleState {
+  const teamPicks: HoleState["teamPicks"] = {};
+  const byId: HoleState["scores"] = {};
+  picks.split(" ").forEach((pick, i) => {
+    if (pick !== "-") teamPicks[`p${i + 1}`] = pick as "T1" | "T2";
+    if (scores[i] !== undefined && scores[i] !== "") byId[`p${i + 1}`] = scores[i];
+  });
+  return { par, strokeIndex: "", yardage: "", teamPicks, scores: byId, extras: {} };
+}
+
+const status = (s: "won" | "tied" | "incomplete" | "no-contest") => ({ ...newExplanation(4), status: s });
+
+test("stroke bounds follow par", () => {
+  expect(strokeBounds(3)).toEqual({ min: 1, max: 9 });
+  expect(strokeBounds("")).toEqual({ min: 1, max: 10 });
+  expect(scoreProblem(0, 4)).toBe("0 isn't 1–10");
+  expect(scoreProblem(25, 5)).toBe("25 isn't 1–11");
+  expect(scoreProblem(4.5, 4)).toBe("4.5 isn't 1–10");
+  expect(scoreProblem(10, 4)).toBeNull();
+  expect(scoreProblem("", 4)).toBeNull();
+});
+
+test("pars the scoring would change are flagged", () => {
+  expect(parProblem("")).toMatch(/blank/);
+  expect(parProblem(2)).toBe("Par 2 is scored as a par 4");
+  expect(parProblem(3)).toBeNull();
+  expect(parProblem(6)).toBeNull();
+  expect(parProblem(9)).toBe("Par 9 isn't 3–6: check the par");
+  expect(parProblem(4.5)).toMatch(/isn't 3–6/);
+});
+
+test("only players on a team owe a score in team formats", () => {
+  const h = hole("T1 T2 - T2", [4, "", "", 5]);
+  expect(missingScores(h, PLAYERS, true).map((p) => p.name)).toEqual(["B"]);
+  expect(missingScores(h, PLAYERS, false).map((p) => p.name)).toEqual(["B", "C"]);
+});
+
+test("badges", () => {
+  expect(holeBadge(status("won"))).toBe("complete");
+  expect(holeBadge(status("tied"))).toBe("complete");
+  expect(holeBadge(status("no-contest"))).toBe("no-contest");
+  expect(holeBadge(status("incomplete"))).toBe("incomplete");
+  expect(holeBadge(undefined)).toBe("incomplete");
+  expect(holeBadge(status("no-contest"), hole("- - - -", []))).toBe("incomplete");
+});
+
+test("lists holes that didn't count, up to the last one played", () => {
+  const holes = [
+    hole("T1 T2 T1 T2", [4, 5, 4, 0]),
+    hole("- - - -", [4, 4, 4, 4]),
+    hole("T1 T2 T1 T2", [4, "", 5, ""]),
+    hole("T1 T2 T1 T2", [5, 5, 5, 5]),
+    hole("T1 T2 T1 T2", []),
+  ];
+  const explanations = [status("won"), status("no-contest"), status("incomplete"), status("tied"), status("incomplete")];
+  expect(scoringProblems(holes, explanations, PLAYERS, true)).toEqual([
+    { hole: 0, message: "D's 0 isn't 1–10" },
+    { hole: 1, message: "teams aren't set" },
+    { hole: 2, message: "no score for B, D" },
+  ]);
+});
+
+test("a hole with a result still lists a partner who hasn't scored", () => {
+  const holes = [hole("T1 T2 T1 T2", [4, 5, "", ""])];
+  expect(scoringProblems(holes, [status("won")], PLAYERS, true)).toEqual([{ hole: 0, message: "no score for C, D" }]);
+});
@@ -0,0 +1,76 @@
+import { HoleState, pickOf, Player, scoreOf } from "./match";
+import { HoleExplanation, strokeBounds } from "./scoring";
+
+// ---------- Bounds ----------
+export const MAX_PAR = 6;
+
+export type HoleBadge = "complete" | "incomplete" | "no-contest";
+
+export type HoleProblem = {
+  hole: number;                     // index
+  message: string;
+};
+
+// Why a score can't be right, or null if it's plausible
+export function scoreProblem(score: number | "", par: HoleState["par"]): string | null {
+  if (score === "") return null;
+  const { min, max } = strokeBounds(par);
+  if (!Number.isInteger(score) || score < min || score > max) return `${score} isn't ${min}–${max}`;
+  return null;
+}
+
+// Pars the scoring won't take as entered, or that no hole has
+export function parProblem(par: HoleState["par"]): string | null {
+  if (par === "") return "Par is blank, so it's scored as a par 4";
+  if (par < 3) return `Par ${par} is scored as a par 4`;
+  if (!Number.isInteger(par) || par > MAX_PAR) return `Par ${par} isn't 3–${MAX_PAR}: check the par`;
+  return null;
+}
+
+// Players who owe a score on this hole: everyone on a team, or everyone
+// active when the format doesn't use team picks
+export function requiredPlayers(hole: HoleState, active: Player[], usesTeamPicks: boolean): Player[] {
+  return usesTeamPicks ? active.filter((p) => pickOf(hole, p.id) !== "Sit") : active;
+}
+
+export function missingScores(hole: HoleState, active: Player[], usesTeamPicks: boolean): Player[] {
+  return requiredPlayers(hole, active, usesTeamPicks).filter((p) => scoreOf(hole, p.id) === "");
+}
+
+// ---------- Status ----------
+// A hole nobody has scored yet is just unplayed, whatever the format made of it
+export function holeBadge(explanation: HoleExplanation | undefined, hole?: HoleState): HoleBadge {
+  if (!explanation || explanation.status === "incomplete") return "incomplete";
+  if (explanation.status !== "no-contest") return "complete";
+  return hole && Object.values(hole.scores).every((s) => s === "") ? "incomplete" : "no-contest";
+}
+
+// Holes up to the last one with a score that didn't count, with the
+// reason, plus any hole still owed a score (a partner's, even once the
+// hole has a result) or carrying a score outside the bounds. Holes after
+// the last score haven't been played yet and aren't listed.
+export function scoringProblems(
+  holes: HoleState[],
+  explanations: HoleExplanation[],
+  active: Player[],
+  usesTeamPicks: boolean
+): HoleProblem[] {
+  const played = holes.reduce((last, h, hi) => (active.some((p) => scoreOf(h, p.id) !== "") ? hi : last), -1);
+  const problems: HoleProblem[] = [];
+  holes.forEach((hole, hi) => {
+    const badge = holeBadge(explanations[hi], hole);
+    if (hi <= played && badge === "no-contest") {
+      problems.push({ hole: hi, message: usesTeamPicks ? "teams aren't set" : "not enough players" });
+    } else if (hi <= played) {
+      const missing = missingScores(hole, active, usesTeamPicks);
+      const names = missing.map((p) => p.name).join(", ");
+      if (missing.length) problems.push({ hole: hi, message: `no score for ${names}` });
+      else if (badge === "incomplete") problems.push({ hole: hi, message: "still waiting on input" });
+    }
+    for (const p of active) {
+      const problem = scoreProblem(scoreOf(hole, p.id), hole.par);
+      if (problem) problems.push({ hole: hi, message: `${p.name}'s ${problem}` });
+    }
+  });
+  return problems;
+}